@@ -26,7 +26,8 @@ const dbLog = create({
 
 dbLog.info('Connecting to database...');
 dbLog.success('Connected to MongoDB');
-dbLog.debug('Query executed in 45ms');
+const query = dbLog.startTimer();
+query.done('Query executed', { collection: 'users' });
 
 console.log('\n=== Multiple Loggers ===\n');
 
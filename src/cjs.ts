@@ -0,0 +1,11 @@
+/**
+ * minilog-zero - CommonJS entry point
+ *
+ * `require('minilog-zero')` returns the default logger with the named exports
+ * attached. A copy is exported so the logger seen by ESM imports keeps its
+ * own methods (such as `create`, which makes a child logger there).
+ */
+
+import defaultLogger, * as minilog from './index.js';
+
+module.exports = Object.assign({}, defaultLogger, minilog, { default: defaultLogger });
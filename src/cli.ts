@@ -0,0 +1,415 @@
+#!/usr/bin/env node
+/**
+ * minilog-zero - Command line viewer for NDJSON logs
+ */
+
+import fs from 'fs';
+import readline from 'readline';
+import { StringDecoder } from 'string_decoder';
+import { create } from './index.js';
+import { LEVELS } from './levels.js';
+import type { Logger, LogEntry, StackFrame } from './index.js';
+
+export interface ViewerOptions {
+  /** Minimum level to show */
+  level?: string;
+  /** Only show records whose prefix contains this text */
+  prefix?: string;
+  /** Only show lines matching this pattern */
+  grep?: RegExp;
+  /** Only show records logged at or after this time */
+  since?: Date;
+  /** Only show these fields (all fields when not set) */
+  fields?: string[];
+  /** Timestamp option passed to the pretty formatter */
+  timestamp?: boolean | string;
+  /** Whether to use ANSI colors */
+  colors?: boolean | 'auto';
+  /** Whether to show emoji icons */
+  icons?: boolean;
+}
+
+export interface CliOptions extends ViewerOptions {
+  /** File to read (stdin when not set) */
+  file?: string;
+  /** Keep reading the file as it grows */
+  follow: boolean;
+  /** Show usage and exit */
+  help: boolean;
+}
+
+const USAGE = `Usage: minilog [options] [file]
+
+Pretty-print JSON log lines from a file or stdin.
+
+Options:
+  -f, --follow           Keep reading the file as it grows
+  -l, --level <level>    Minimum level name or priority to show
+  -p, --prefix <text>    Only show records whose prefix contains <text>
+  -g, --grep <pattern>   Only show lines matching a regular expression
+  -s, --since <time>     Only show records since an ISO time or a duration ago (30s, 10m, 2h, 1d)
+      --fields <list>    Only show these comma-separated fields
+      --timestamp <fmt>  Timestamp preset or pattern, or "none" (default: iso)
+      --no-color         Disable colors
+      --no-icons         Hide emoji icons
+  -h, --help             Show this help`;
+
+// Keys written by the JSON formatter that are not user fields
+const BUILT_IN_KEYS = ['time', 'level', 'priority', 'prefix', 'name', 'msg', 'err', 'duration'];
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// Bytes read at a time when following a file
+const FOLLOW_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Check whether a level name is one of the built-in levels
+ */
+function isBuiltInLevel(level: string): level is keyof typeof LEVELS {
+  return Object.prototype.hasOwnProperty.call(LEVELS, level);
+}
+
+/**
+ * Get the priority of a built-in level name or a numeric priority
+ */
+function levelPriority(level: string): number | undefined {
+  if (isBuiltInLevel(level)) return LEVELS[level];
+  return /^-?\d+(\.\d+)?$/.test(level) ? Number(level) : undefined;
+}
+
+/**
+ * Parse a --since value: an ISO time or a duration like 10m before now
+ */
+function parseSince(value: string, now: number): Date {
+  const match = /^(\d+(?:\.\d+)?)(ms|s|m|h|d)$/.exec(value);
+  if (match) {
+    return new Date(now - Number(match[1]) * DURATION_UNITS[match[2]]);
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new TypeError(`Invalid --since value: "${value}". Expected an ISO time or a duration like 30s, 10m, 2h or 1d`);
+  }
+  return new Date(time);
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(argv: string[], now: number = Date.now()): CliOptions {
+  const options: CliOptions = { follow: false, help: false };
+  const args = [...argv];
+
+  const takeValue = (flag: string, inline: string | undefined): string => {
+    const value = inline ?? args.shift();
+    if (value === undefined) {
+      throw new TypeError(`Missing value for ${flag}`);
+    }
+    return value;
+  };
+
+  while (args.length > 0) {
+    const arg = args.shift()!;
+    const [flag, inline] = arg.startsWith('--') && arg.includes('=')
+      ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+      : [arg, undefined];
+
+    switch (flag) {
+      case '-f':
+      case '--follow':
+        options.follow = true;
+        break;
+      case '-l':
+      case '--level': {
+        const level = takeValue(flag, inline);
+        if (!level.trim()) {
+          throw new TypeError(`Invalid log level: "${level}". Expected a level name or a priority`);
+        }
+        options.level = level;
+        break;
+      }
+      case '-p':
+      case '--prefix':
+        options.prefix = takeValue(flag, inline);
+        break;
+      case '-g':
+      case '--grep': {
+        const pattern = takeValue(flag, inline);
+        try {
+          options.grep = new RegExp(pattern);
+        } catch {
+          throw new TypeError(`Invalid --grep pattern: "${pattern}"`);
+        }
+        break;
+      }
+      case '-s':
+      case '--since':
+        options.since = parseSince(takeValue(flag, inline), now);
+        break;
+      case '--fields':
+        options.fields = takeValue(flag, inline).split(',').map(field => field.trim()).filter(Boolean);
+        break;
+      case '--timestamp': {
+        const format = takeValue(flag, inline);
+        options.timestamp = format === 'none' ? false : format;
+        break;
+      }
+      case '--no-color':
+        options.colors = false;
+        break;
+      case '--no-icons':
+        options.icons = false;
+        break;
+      case '-h':
+      case '--help':
+        options.help = true;
+        break;
+      default:
+        if (flag.startsWith('-') && flag !== '-') {
+          throw new TypeError(`Unknown option: ${flag}`);
+        }
+        if (options.file !== undefined) {
+          throw new TypeError(`Unexpected argument: ${flag}. Only one file can be read`);
+        }
+        options.file = flag;
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Rebuild an Error from the `err` field written by the JSON formatter so
+ * it is rendered with its stack frames, properties and causes
+ */
+function toError(value: unknown): unknown {
+  if (typeof value !== 'object' || value === null || typeof (value as Record<string, unknown>).message !== 'string') {
+    return value;
+  }
+  const { name, message, stack, cause, errors, ...props } = value as Record<string, unknown>;
+  const error = new Error(message as string);
+  // Keep the name off the own enumerable properties, which are rendered as custom fields
+  Object.defineProperty(error, 'name', { value: typeof name === 'string' ? name : 'Error', writable: true, configurable: true });
+
+  const frames = Array.isArray(stack) ? (stack as StackFrame[]) : [];
+  const lines = frames.map(({ fn, file, line, column }) => {
+    const location = line === null ? file : `${file}:${line}:${column}`;
+    return fn ? `    at ${fn} (${location})` : `    at ${location}`;
+  });
+  error.stack = [error.message ? `${error.name}: ${error.message}` : error.name, ...lines].join('\n');
+
+  Object.assign(error, props);
+  if (cause !== undefined) {
+    Object.defineProperty(error, 'cause', { value: toError(cause), writable: true, configurable: true });
+  }
+  if (Array.isArray(errors)) {
+    Object.defineProperty(error, 'errors', { value: errors.map(toError), writable: true, configurable: true });
+  }
+  return error;
+}
+
+/**
+ * Create a function that renders JSON log lines in the pretty format. Lines
+ * are replayed through a logger, so the output matches what log() prints.
+ * Lines that are not JSON objects or cannot be replayed are written unchanged.
+ */
+function createViewer(options: ViewerOptions, write: (text: string) => void): (line: string) => void {
+  // Priority of --level: a number, a built-in level, or undefined until a record of a custom level arrives
+  let minPriority = options.level !== undefined ? levelPriority(options.level) : -Infinity;
+
+  // Record values of the line being replayed, applied by a record hook
+  let current: Partial<LogEntry> = {};
+  const baseOptions = {
+    level: 'debug',
+    timestamp: options.timestamp ?? true,
+    colors: options.colors ?? 'auto',
+    icons: options.icons ?? true,
+    transports: [{ write: (record: { output: string }) => write(record.output) }],
+    hooks: [(record: LogEntry) => ({ ...record, ...current })],
+  };
+  const viewers = new Map<string, Logger<string>>([['', create(baseOptions) as Logger<string>]]);
+
+  // Levels that are not built in get a logger with a matching custom level
+  const viewerFor = (level: string, priority: number): Logger<string> => {
+    const key = isBuiltInLevel(level) ? '' : level;
+    let viewer = viewers.get(key);
+    if (!viewer) {
+      viewer = create({ ...baseOptions, levels: { [level]: { priority } } }) as Logger<string>;
+      viewers.set(key, viewer);
+    }
+    return viewer;
+  };
+
+  return (line: string) => {
+    if (!line.trim()) return;
+
+    let entry: Record<string, unknown>;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      entry = {};
+    }
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry) || typeof entry.level !== 'string') {
+      if (!options.grep || options.grep.test(line)) write(line);
+      return;
+    }
+
+    const level = entry.level as string;
+    const priority = typeof entry.priority === 'number' ? entry.priority : isBuiltInLevel(level) ? LEVELS[level] : 0;
+    const timestamp = typeof entry.time === 'string' ? new Date(entry.time) : new Date();
+    const prefix = typeof entry.prefix === 'string' ? entry.prefix : '';
+
+    if (minPriority === undefined) {
+      if (level !== options.level) return;
+      minPriority = priority;
+    }
+    if (priority < minPriority) return;
+    if (options.prefix !== undefined && !prefix.includes(options.prefix)) return;
+    if (options.since && timestamp.getTime() < options.since.getTime()) return;
+    if (options.grep && !options.grep.test(line)) return;
+
+    const fields: Record<string, unknown> = {};
+    for (const key of Object.keys(entry)) {
+      if (!BUILT_IN_KEYS.includes(key) && (!options.fields || options.fields.includes(key))) {
+        fields[key] = entry[key];
+      }
+    }
+
+    const args: unknown[] = [];
+    const error = entry.err !== undefined ? toError(entry.err) : undefined;
+    const msg = typeof entry.msg === 'string' ? entry.msg : '';
+    if (msg && !(error instanceof Error && msg === error.message)) {
+      args.push(msg);
+    }
+    if (error !== undefined) {
+      args.push(error);
+    }
+
+    current = {
+      level,
+      timestamp,
+      prefix,
+      name: typeof entry.name === 'string' ? entry.name : '',
+      bindings: {},
+      fields,
+      duration: typeof entry.duration === 'number' ? entry.duration : undefined,
+    };
+    // Levels named like logger methods (group, flush, ...) cannot be replayed
+    try {
+      const viewer = viewerFor(level, priority);
+      (viewer[level as keyof Logger<string>] as (...values: unknown[]) => void)(...args);
+    } catch {
+      write(line);
+    }
+  };
+}
+
+/**
+ * Read a file from the start and keep reading lines appended to it, like
+ * `tail -f`. Returns a function that stops following.
+ */
+function followFile(file: string, onLine: (line: string) => void, interval = 250): () => void {
+  const chunk = Buffer.alloc(FOLLOW_CHUNK_SIZE);
+  let position = 0;
+  let remainder = '';
+  // Keeps the bytes of a character split across two reads
+  let decoder = new StringDecoder('utf8');
+  let reading = false;
+
+  const read = () => {
+    if (reading) return;
+    reading = true;
+    try {
+      const { size } = fs.statSync(file);
+      // Start over when the file was truncated or replaced by rotation
+      if (size < position) {
+        position = 0;
+        remainder = '';
+        decoder = new StringDecoder('utf8');
+      }
+      if (size > position) {
+        const fd = fs.openSync(file, 'r');
+        try {
+          while (position < size) {
+            const bytesRead = fs.readSync(fd, chunk, 0, Math.min(chunk.length, size - position), position);
+            if (bytesRead === 0) break;
+            position += bytesRead;
+            const lines = (remainder + decoder.write(chunk.subarray(0, bytesRead))).split('\n');
+            remainder = lines.pop() ?? '';
+            lines.forEach(onLine);
+          }
+        } finally {
+          fs.closeSync(fd);
+        }
+      }
+    } catch (error) {
+      // The file may be missing briefly while it is rotated
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    } finally {
+      reading = false;
+    }
+  };
+
+  read();
+  const timer = setInterval(read, interval);
+  return () => clearInterval(timer);
+}
+
+/**
+ * Run the CLI and resolve with its exit code
+ */
+async function main(argv: string[]): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseArgs(argv);
+  } catch (error) {
+    process.stderr.write(`minilog: ${(error as Error).message}\n\n${USAGE}\n`);
+    return 2;
+  }
+  if (options.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return 0;
+  }
+
+  const view = createViewer(options, text => process.stdout.write(`${text}\n`));
+
+  if (options.follow) {
+    if (!options.file) {
+      process.stderr.write('minilog: --follow needs a file\n');
+      return 2;
+    }
+    if (!fs.existsSync(options.file)) {
+      process.stderr.write(`minilog: ${options.file}: no such file\n`);
+      return 1;
+    }
+    const stop = followFile(options.file, view);
+    await new Promise<void>(resolve => process.once('SIGINT', () => resolve()));
+    stop();
+    return 0;
+  }
+
+  const input = options.file && options.file !== '-' ? fs.createReadStream(options.file) : process.stdin;
+  try {
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+    for await (const line of lines) {
+      view(line);
+    }
+  } catch (error) {
+    process.stderr.write(`minilog: ${(error as Error).message}\n`);
+    return 1;
+  }
+  return 0;
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
+
+export { parseArgs, createViewer, followFile, main };
@@ -0,0 +1,144 @@
+/**
+ * minilog-zero - Configuration from environment variables and a config file
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { LEVELS } from './levels.js';
+import { validateTimestamp } from './timestamp.js';
+import type { LoggerOptions } from './index.js';
+
+// Default name of the optional config file, looked up in the working directory
+const CONFIG_FILE = 'minilog.config.json';
+
+// Valid values for each setting, used for validation and error messages
+const LEVEL_VALUES = Object.keys(LEVELS);
+const FORMAT_VALUES = ['pretty', 'json'];
+const BOOLEAN_VALUES = ['true', 'false', '1', '0'];
+const COLOR_VALUES = [...BOOLEAN_VALUES, 'auto'];
+
+// Settings read from the environment and the keys they set
+const ENV_KEYS = {
+  MINILOG_LEVEL: 'level',
+  MINILOG_FORMAT: 'format',
+  MINILOG_TIMESTAMP: 'timestamp',
+  MINILOG_ICONS: 'icons',
+  MINILOG_COLORS: 'colors',
+} as const;
+
+type ConfigKey = (typeof ENV_KEYS)[keyof typeof ENV_KEYS];
+
+export type ConfigOptions = Pick<LoggerOptions, ConfigKey>;
+
+/** Runs a step that may throw a TypeError for an invalid setting */
+type Attempt = (step: () => void) => void;
+
+/**
+ * Check a value against a list of allowed values, throwing a TypeError that
+ * names the source of the value when it is invalid
+ */
+function checkValue(source: string, kind: string, value: string, valid: string[]): string {
+  if (!valid.includes(value)) {
+    throw new TypeError(`Invalid ${source}: "${value}". Valid ${kind}: ${valid.join(', ')}`);
+  }
+  return value;
+}
+
+/**
+ * Convert one setting into its LoggerOptions value
+ */
+function parseSetting(key: ConfigKey, source: string, rawValue: string): ConfigOptions[ConfigKey] {
+  const value = rawValue.trim().toLowerCase();
+  switch (key) {
+    case 'level':
+      return checkValue(source, 'levels', value, LEVEL_VALUES) as ConfigOptions['level'];
+    case 'format':
+      return checkValue(source, 'formats', value, FORMAT_VALUES) as ConfigOptions['format'];
+    case 'colors':
+      checkValue(source, 'values', value, COLOR_VALUES);
+      return value === 'auto' ? 'auto' : value === 'true' || value === '1';
+    case 'timestamp':
+      // Presets and patterns such as HH:mm:ss.SSS are case-sensitive
+      if (BOOLEAN_VALUES.includes(value)) return value === 'true' || value === '1';
+      validateTimestamp(rawValue.trim(), source);
+      return rawValue.trim();
+    default:
+      checkValue(source, 'values', value, BOOLEAN_VALUES);
+      return value === 'true' || value === '1';
+  }
+}
+
+/**
+ * Read settings from a JSON config file, checking each one on its own
+ */
+function readConfigFile(file: string, attempt: Attempt): ConfigOptions {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new TypeError(`Invalid config file: "${file}". ${(error as Error).message}`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new TypeError(`Invalid config file: "${file}". Expected a JSON object`);
+  }
+
+  const validKeys: string[] = Object.values(ENV_KEYS);
+  const options: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(parsed)) {
+    const source = `${path.basename(file)} ${key}`;
+    attempt(() => {
+      checkValue('config key', 'keys', key, validKeys);
+      if (typeof value !== 'string' && typeof value !== 'boolean') {
+        throw new TypeError(`Invalid ${source}: ${JSON.stringify(value)}. Expected a string or boolean`);
+      }
+      options[key] = parseSetting(key as ConfigKey, source, String(value));
+    });
+  }
+  return options as ConfigOptions;
+}
+
+/**
+ * Load logger options from minilog.config.json (or the file named by
+ * MINILOG_CONFIG) and the MINILOG_* environment variables. Environment
+ * variables take precedence over the file. Invalid settings throw a
+ * TypeError, or are left out and passed to `onInvalid` when it is given.
+ */
+function loadConfig(
+  env: Record<string, string | undefined> = process.env,
+  cwd: string = process.cwd(),
+  onInvalid?: (error: TypeError) => void
+): ConfigOptions {
+  const attempt: Attempt = step => {
+    try {
+      step();
+    } catch (error) {
+      if (!onInvalid || !(error instanceof TypeError)) throw error;
+      onInvalid(error);
+    }
+  };
+  let options: ConfigOptions = {};
+
+  attempt(() => {
+    if (env.MINILOG_CONFIG) {
+      options = readConfigFile(path.resolve(cwd, env.MINILOG_CONFIG), attempt);
+    } else {
+      const file = path.join(cwd, CONFIG_FILE);
+      if (fs.existsSync(file)) {
+        options = readConfigFile(file, attempt);
+      }
+    }
+  });
+
+  for (const [variable, key] of Object.entries(ENV_KEYS)) {
+    const value = env[variable];
+    if (value !== undefined && value !== '') {
+      attempt(() => {
+        (options as Record<string, unknown>)[key] = parseSetting(key, variable, value);
+      });
+    }
+  }
+
+  return options;
+}
+
+export { loadConfig };
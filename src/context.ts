@@ -0,0 +1,29 @@
+/**
+ * minilog-zero - Async context fields backed by AsyncLocalStorage
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Bundlers replace async_hooks with an empty module in browsers, where
+// contexts are not available
+const storage = typeof AsyncLocalStorage === 'function' ? new AsyncLocalStorage<Record<string, unknown>>() : null;
+
+/**
+ * Get the fields of the active context, if any
+ */
+function getContext(): Record<string, unknown> | undefined {
+  return storage?.getStore();
+}
+
+/**
+ * Run a function with fields that every logger includes in its records
+ * during the call, including in callbacks and promises it starts. Nested
+ * contexts add to (and override) the fields of the outer one. Without
+ * AsyncLocalStorage the function runs without context fields.
+ */
+function withContext<T>(fields: Record<string, unknown>, fn: () => T): T {
+  if (!storage) return fn();
+  return storage.run({ ...storage.getStore(), ...fields }, fn);
+}
+
+export { getContext, withContext, withContext as runWithContext };
@@ -0,0 +1,102 @@
+/**
+ * minilog-zero - Error stack parsing and serialization
+ */
+
+export interface StackFrame {
+  /** Function name, if the frame has one */
+  fn: string | null;
+  /** File path or URL of the frame */
+  file: string;
+  /** Line number, if known */
+  line: number | null;
+  /** Column number, if known */
+  column: number | null;
+}
+
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack: StackFrame[];
+  cause?: unknown;
+  errors?: unknown[];
+  [key: string]: unknown;
+}
+
+// Matches "at fn (file:line:column)" and "at file:line:column"
+const FRAME_PATTERN = /^\s*at (?:(.+?) \()?(.+?):(\d+):(\d+)\)?$/;
+
+/**
+ * Get the "at ..." lines of an error stack
+ */
+function stackLines(error: Error): string[] {
+  if (typeof error.stack !== 'string') return [];
+  return error.stack.split('\n').filter(line => /^\s*at /.test(line)).map(line => line.trim());
+}
+
+/**
+ * Parse a single "at ..." stack line
+ */
+function parseFrame(line: string): StackFrame {
+  const match = FRAME_PATTERN.exec(line);
+  if (!match) {
+    return { fn: null, file: line.replace(/^\s*at /, ''), line: null, column: null };
+  }
+  return {
+    fn: match[1] ?? null,
+    file: match[2],
+    line: Number(match[3]),
+    column: Number(match[4]),
+  };
+}
+
+/**
+ * Parse the frames of an error stack
+ */
+function parseStack(error: Error): StackFrame[] {
+  return stackLines(error).map(parseFrame);
+}
+
+/**
+ * Check whether a stack line belongs to a dependency or to Node.js itself
+ */
+function isLibraryFrame(line: string): boolean {
+  return /node_modules[\\/]|\(node:|at node:|\(internal\/|at internal\//.test(line);
+}
+
+/**
+ * Convert an error into a plain object with a parsed stack, its custom
+ * properties, its cause chain and the errors of an AggregateError
+ */
+function serializeError(error: Error, seen: Set<Error> = new Set()): SerializedError {
+  seen.add(error);
+  const result: SerializedError = {
+    name: error.name,
+    message: error.message,
+    stack: parseStack(error),
+  };
+
+  // Include any custom properties on the error
+  for (const key of Object.keys(error)) {
+    if (!(key in result)) {
+      result[key] = (error as unknown as Record<string, unknown>)[key];
+    }
+  }
+
+  const serializeNested = (value: unknown): unknown => {
+    if (!(value instanceof Error)) return value;
+    return seen.has(value) ? '[Circular]' : serializeError(value, seen);
+  };
+
+  const { cause, errors } = error as Error & { cause?: unknown; errors?: unknown };
+  if (cause !== undefined) {
+    result.cause = serializeNested(cause);
+  }
+  if (Array.isArray(errors)) {
+    result.errors = errors.map(serializeNested);
+  }
+
+  seen.delete(error);
+  return result;
+}
+
+export { parseStack, stackLines, isLibraryFrame, serializeError };
@@ -0,0 +1,230 @@
+/**
+ * minilog-zero - Rotating file transport
+ */
+
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { pipeline } from 'stream';
+import type { LogRecord, Transport } from './index.js';
+
+// Matches ANSI color escape sequences
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g;
+
+export type RotationInterval = 'daily' | 'hourly';
+
+export interface FileTransportOptions {
+  /** Path of the active log file */
+  path: string;
+  /** Rotate when the file would grow past this many bytes */
+  maxSize?: number;
+  /** Rotate when a daily or hourly boundary is crossed (local time) */
+  interval?: RotationInterval;
+  /** Number of rotated files to keep */
+  maxFiles?: number;
+  /** Whether to gzip rotated files */
+  compress?: boolean;
+  /** Called when writing or rotating fails (defaults to writing to stderr) */
+  onError?: (error: Error) => void;
+}
+
+export interface FileTransport extends Transport {
+  /** Wait until all pending lines are written */
+  flush(): Promise<void>;
+  /** Flush pending lines and close the file */
+  close(): Promise<void>;
+}
+
+/**
+ * Remove ANSI color codes from a string
+ */
+function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
+
+/**
+ * Get the key of the rotation period a date falls into
+ */
+function periodKey(date: Date, interval: RotationInterval | undefined): string {
+  if (!interval) return '';
+  const day = `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+  return interval === 'hourly' ? `${day}T${date.getHours()}` : day;
+}
+
+/**
+ * Check whether a file exists
+ */
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.promises.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Gzip a file into a new file
+ */
+function gzipFile(source: string, destination: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    pipeline(
+      fs.createReadStream(source),
+      zlib.createGzip(),
+      fs.createWriteStream(destination),
+      error => (error ? reject(error) : resolve())
+    );
+  });
+}
+
+/**
+ * Create a transport that appends plain-text lines to a file and rotates it
+ * by size and/or time. Rotated files are named `<path>.1` (newest) up to
+ * `<path>.<maxFiles>`, with a `.gz` suffix when compression is enabled.
+ */
+function fileTransport(options: FileTransportOptions): FileTransport {
+  const filePath = path.resolve(options.path);
+  const maxSize = options.maxSize ?? 0;
+  const interval = options.interval;
+  const maxFiles = options.maxFiles ?? 5;
+  const compress = options.compress ?? false;
+  const onError = options.onError ?? ((error: Error) => {
+    process.stderr.write(`minilog-zero: file transport error: ${error.message}\n`);
+  });
+
+  if (interval !== undefined && interval !== 'daily' && interval !== 'hourly') {
+    throw new TypeError(`Invalid rotation interval: "${interval}". Valid intervals: daily, hourly`);
+  }
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  let size = 0;
+  let period = periodKey(new Date(), interval);
+  try {
+    const stats = fs.statSync(filePath);
+    size = stats.size;
+    period = periodKey(stats.mtime, interval);
+  } catch {
+    // File does not exist yet
+  }
+
+  let stream: fs.WriteStream | null = openStream();
+  let rotation: Promise<void> = Promise.resolve();
+  let backlog: string[] = [];
+  let closed = false;
+
+  /**
+   * Open the active file in append mode
+   */
+  function openStream(): fs.WriteStream {
+    const next = fs.createWriteStream(filePath, { flags: 'a' });
+    next.on('error', onError);
+    return next;
+  }
+
+  /**
+   * Shift rotated files up by one and move the active file to `.1`
+   */
+  async function shiftFiles(): Promise<void> {
+    const suffix = compress ? '.gz' : '';
+    const rotated = (index: number) => `${filePath}.${index}${suffix}`;
+
+    if (maxFiles < 1) {
+      await fs.promises.unlink(filePath);
+      return;
+    }
+
+    if (await exists(rotated(maxFiles))) {
+      await fs.promises.unlink(rotated(maxFiles));
+    }
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      if (await exists(rotated(index))) {
+        await fs.promises.rename(rotated(index), rotated(index + 1));
+      }
+    }
+
+    if (compress) {
+      await gzipFile(filePath, rotated(1));
+      await fs.promises.unlink(filePath);
+    } else {
+      await fs.promises.rename(filePath, rotated(1));
+    }
+  }
+
+  /**
+   * Close the active file, rotate it and reopen a fresh one.
+   * Lines written meanwhile are kept in the backlog.
+   */
+  function rotate(): void {
+    const previous = stream;
+    stream = null;
+    size = 0;
+
+    rotation = new Promise<void>(resolve => {
+      if (previous) {
+        previous.end(resolve);
+      } else {
+        resolve();
+      }
+    })
+      .then(shiftFiles)
+      .catch(onError)
+      .then(() => {
+        if (closed) return;
+        stream = openStream();
+        for (const line of backlog) {
+          stream.write(line);
+        }
+        backlog = [];
+      });
+  }
+
+  /**
+   * Wait until pending rotation and buffered writes are done
+   */
+  async function flush(): Promise<void> {
+    await rotation;
+    const current = stream;
+    if (current && !current.destroyed) {
+      await new Promise<void>(resolve => current.write('', () => resolve()));
+    }
+  }
+
+  return {
+    write(record: LogRecord): void {
+      if (closed) return;
+
+      const line = stripAnsi(record.output) + '\n';
+      const bytes = Buffer.byteLength(line);
+      const recordPeriod = periodKey(record.timestamp, interval);
+
+      // While a rotation is in progress lines go to the backlog of the next file
+      if (stream && size > 0 && ((maxSize > 0 && size + bytes > maxSize) || recordPeriod !== period)) {
+        rotate();
+      }
+      period = recordPeriod;
+      size += bytes;
+
+      if (stream) {
+        stream.write(line);
+      } else {
+        backlog.push(line);
+      }
+    },
+
+    flush,
+
+    async close(): Promise<void> {
+      if (closed) return;
+      await flush();
+      closed = true;
+      const current = stream;
+      stream = null;
+      if (current) {
+        await new Promise<void>(resolve => current.end(resolve));
+      }
+    },
+  };
+}
+
+export { fileTransport, stripAnsi };
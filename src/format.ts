@@ -0,0 +1,176 @@
+/**
+ * minilog-zero - Message and JSON formatting shared by the logger and transports
+ */
+
+import { inspect, InspectOptions } from './inspect.js';
+import { serializeError } from './errors.js';
+import type { LogRecord } from './index.js';
+
+/**
+ * Create a JSON.stringify replacer that handles BigInt and circular references
+ */
+function createJsonReplacer(): (key: string, value: unknown) => unknown {
+  const seen = new WeakSet();
+  return (_key, val) => {
+    if (typeof val === 'bigint') {
+      return val.toString() + 'n';
+    }
+    if (typeof val === 'object' && val !== null) {
+      if (seen.has(val)) {
+        return '[Circular]';
+      }
+      seen.add(val);
+    }
+    return val;
+  };
+}
+
+/**
+ * Format a single value for a printf-style specifier
+ * (compatible with Node's util.format)
+ */
+function formatSpecifier(specifier: string, value: unknown, options: InspectOptions): string {
+  switch (specifier) {
+    case 's':
+      if (typeof value === 'string') return value;
+      if (typeof value === 'bigint') return `${value}n`;
+      if (typeof value === 'symbol') return value.toString();
+      return inspect(value, { ...options, compact: true });
+    case 'd':
+      if (typeof value === 'bigint') return `${value}n`;
+      if (typeof value === 'symbol' || (typeof value === 'object' && value !== null)) return 'NaN';
+      return String(Number(value));
+    case 'i':
+      if (typeof value === 'bigint') return `${value}n`;
+      if (typeof value === 'symbol') return 'NaN';
+      return String(parseInt(String(value), 10));
+    case 'f':
+      if (typeof value === 'symbol') return 'NaN';
+      return String(parseFloat(String(value)));
+    case 'j':
+      try {
+        return JSON.stringify(value, createJsonReplacer()) ?? 'undefined';
+      } catch {
+        return '[Circular]';
+      }
+    default:
+      // %o and %O
+      return inspect(value, options);
+  }
+}
+
+/**
+ * Apply printf-style specifiers (%s %d %i %f %j %o %O %c %%) in the first
+ * argument. Returns the formatted template and the arguments it did not use.
+ */
+function applyFormat(args: unknown[], options: InspectOptions): { template: string | null; rest: unknown[] } {
+  const [first, ...values] = args;
+  // Like util.format, a lone string is printed as-is
+  if (typeof first !== 'string' || values.length === 0 || !first.includes('%')) {
+    return { template: null, rest: args };
+  }
+
+  let index = 0;
+  const template = first.replace(/%([sdifjoOc%])/g, (match, specifier: string) => {
+    if (specifier === '%') return '%';
+    if (index >= values.length) return match;
+    const value = values[index++];
+    // %c (CSS styling) is consumed but not printed
+    return specifier === 'c' ? '' : formatSpecifier(specifier, value, options);
+  });
+
+  return { template, rest: values.slice(index) };
+}
+
+/**
+ * Join arguments with spaces, stringifying everything but strings
+ */
+function joinArgs(args: unknown[], options: InspectOptions): string {
+  return args.map(arg => {
+    if (typeof arg === 'string') return arg;
+    return inspect(arg, options);
+  }).join(' ');
+}
+
+/**
+ * Format arguments into a single string
+ */
+function formatArgs(args: unknown[], options: InspectOptions = {}): string {
+  const { template, rest } = applyFormat(args, options);
+  return joinArgs(template !== null ? [template, ...rest] : rest, options);
+}
+
+/**
+ * Check whether a value is a plain object literal
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Format a log entry as a single-line JSON object.
+ * Bound fields, record fields and plain object arguments are merged in as
+ * fields, everything else forms `msg`.
+ */
+function formatJson(record: Omit<LogRecord, 'output'>, options: InspectOptions): string {
+  const { level, priority, timestamp, prefix, name, args, bindings, fields: recordFields, duration } = record;
+  const entry: Record<string, unknown> = {
+    time: timestamp.toISOString(),
+    level,
+    priority,
+  };
+  if (prefix) {
+    entry.prefix = prefix;
+  }
+  if (name) {
+    entry.name = name;
+  }
+
+  // Arguments used by format specifiers stay in the message, which is
+  // printed on a single line
+  const inspectOptions = { ...options, compact: true };
+  const { template, rest } = applyFormat(args, inspectOptions);
+  const messageArgs: unknown[] = template !== null ? [template] : [];
+  const fields: Record<string, unknown> = { ...bindings, ...recordFields };
+  let error: Error | null = null;
+  for (const arg of rest) {
+    if (isPlainObject(arg)) {
+      Object.assign(fields, arg);
+    } else if (arg instanceof Error && !error) {
+      error = arg;
+    } else {
+      messageArgs.push(arg);
+    }
+  }
+  entry.msg = joinArgs(messageArgs, inspectOptions);
+
+  // The first Error becomes a structured `err` field
+  if (error) {
+    if (!entry.msg) {
+      entry.msg = error.message;
+    }
+    entry.err = serializeError(error);
+  }
+
+  // Durations are reported in milliseconds with microsecond precision
+  if (duration !== undefined) {
+    entry.duration = Math.round(duration * 1000) / 1000;
+  }
+
+  // Built-in fields take precedence over user fields
+  for (const key of Object.keys(fields)) {
+    if (!(key in entry)) {
+      entry[key] = fields[key];
+    }
+  }
+
+  try {
+    return JSON.stringify(entry, createJsonReplacer());
+  } catch {
+    return JSON.stringify({ time: entry.time, level, priority: entry.priority, msg: entry.msg });
+  }
+}
+
+export { createJsonReplacer, formatArgs, formatJson };
@@ -0,0 +1,64 @@
+/**
+ * minilog-zero - Record and output hooks
+ */
+
+import type { LogRecord } from './index.js';
+
+/** A record before it is formatted */
+export type LogEntry = Pick<LogRecord, 'level' | 'timestamp' | 'prefix' | 'name' | 'args' | 'bindings' | 'fields' | 'duration'>;
+
+/**
+ * Receives a record before formatting. Return nothing to keep the (possibly
+ * modified) record, a new record to replace it, or false/null to drop it.
+ */
+export type RecordHook = (record: LogEntry) => LogEntry | false | null | void;
+
+/**
+ * Receives a formatted record before it reaches the transports, with the
+ * same return values as a RecordHook
+ */
+export type OutputHook = (record: LogRecord) => LogRecord | false | null | void;
+
+export interface HookOptions {
+  /** Hooks run in order on each record before formatting */
+  record?: RecordHook[];
+  /** Hooks run in order on each formatted record */
+  output?: OutputHook[];
+}
+
+/**
+ * Convert the hooks option into its object form
+ */
+function normalizeHooks(hooks: RecordHook[] | HookOptions | undefined): Required<HookOptions> {
+  if (Array.isArray(hooks)) return { record: hooks, output: [] };
+  return { record: hooks?.record ?? [], output: hooks?.output ?? [] };
+}
+
+/**
+ * Combine inherited hooks with additional ones, which run after them
+ */
+function mergeHooks(
+  inherited: Required<HookOptions>,
+  added: RecordHook[] | HookOptions | undefined
+): Required<HookOptions> {
+  const extra = normalizeHooks(added);
+  return {
+    record: [...inherited.record, ...extra.record],
+    output: [...inherited.output, ...extra.output],
+  };
+}
+
+/**
+ * Pass a value through hooks in order, returning null when one drops it
+ */
+function runHooks<T>(hooks: Array<(value: T) => T | false | null | void>, value: T): T | null {
+  let current = value;
+  for (const hook of hooks) {
+    const result = hook(current);
+    if (result === false || result === null) return null;
+    if (result !== undefined) current = result;
+  }
+  return current;
+}
+
+export { normalizeHooks, mergeHooks, runHooks };
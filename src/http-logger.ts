@@ -0,0 +1,109 @@
+/**
+ * minilog-zero - HTTP request logging middleware
+ */
+
+import crypto from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Logger, LogLevel } from './index.js';
+
+export interface HttpLoggerOptions {
+  /** Header the request ID is read from and echoed in (false to ignore incoming IDs and not echo) */
+  requestIdHeader?: string | false;
+  /** Create a request ID when the request has none (defaults to a random UUID) */
+  generateId?: (req: IncomingMessage) => string;
+  /** Return true to skip logging a request (it still gets a request ID and logger) */
+  skip?: (req: IncomingMessage, res: ServerResponse) => boolean;
+}
+
+/** A request with the child logger and request ID attached by httpLogger() */
+export type LoggedRequest<L extends string = LogLevel> = IncomingMessage & {
+  /** Child logger bound to the request ID */
+  log: Logger<L>;
+  /** Request ID */
+  id: string;
+};
+
+export type HttpMiddleware = (req: IncomingMessage, res: ServerResponse, next?: (error?: unknown) => void) => void;
+
+/**
+ * Generate a random request ID
+ */
+function randomId(): string {
+  return typeof crypto.randomUUID === 'function' ? crypto.randomUUID() : crypto.randomBytes(16).toString('hex');
+}
+
+/**
+ * Pick the level for a status code: success for 2xx, warn for 4xx, error for 5xx
+ */
+function levelForStatus(status: number): LogLevel {
+  if (status >= 500) return 'error';
+  if (status >= 400) return 'warn';
+  if (status >= 200 && status < 300) return 'success';
+  return 'info';
+}
+
+/**
+ * Create middleware that logs one line per request with its method, URL,
+ * status code, response size and duration. It attaches a child logger bound
+ * to the request ID as `req.log`. Works as an `http.createServer` handler
+ * step (call it with req and res) and as `(req, res, next)` middleware.
+ */
+function httpLogger<L extends string = LogLevel>(logger: Logger<L>, options: HttpLoggerOptions = {}): HttpMiddleware {
+  const header = options.requestIdHeader === undefined ? 'x-request-id' : options.requestIdHeader;
+  const generateId = options.generateId ?? randomId;
+
+  return (req, res, next) => {
+    const incoming = header ? req.headers[header.toLowerCase()] : undefined;
+    const id = typeof incoming === 'string' && incoming ? incoming : generateId(req);
+    const child = logger.child({ requestId: id });
+    Object.assign(req, { log: child, id });
+    if (header && !res.headersSent) {
+      res.setHeader(header, id);
+    }
+
+    // Count body bytes as they are written, which also works for chunked responses
+    let size = 0;
+    const count = (chunk: unknown, encoding?: unknown) => {
+      if (typeof chunk === 'string') {
+        size += Buffer.byteLength(chunk, typeof encoding === 'string' ? (encoding as BufferEncoding) : 'utf8');
+      } else if (chunk instanceof Uint8Array) {
+        size += chunk.byteLength;
+      }
+    };
+    const write = res.write;
+    const end = res.end;
+    res.write = function (this: ServerResponse, chunk: unknown, ...rest: unknown[]) {
+      count(chunk, rest[0]);
+      return (write as Function).call(this, chunk, ...rest);
+    } as ServerResponse['write'];
+    res.end = function (this: ServerResponse, chunk?: unknown, ...rest: unknown[]) {
+      if (typeof chunk !== 'function') count(chunk, rest[0]);
+      return (end as Function).call(this, chunk, ...rest);
+    } as ServerResponse['end'];
+
+    const timer = child.startTimer();
+    let logged = false;
+    const done = (aborted: boolean) => {
+      if (logged) return;
+      logged = true;
+      res.write = write;
+      res.end = end;
+      if (options.skip?.(req, res)) return;
+
+      // Express rewrites req.url in mounted routers and keeps the full URL in originalUrl
+      const url = (req as IncomingMessage & { originalUrl?: string }).originalUrl ?? req.url;
+      const message = `${req.method} ${url}`;
+      if (aborted) {
+        timer.done(message, { status: res.statusCode, size, aborted: true }, 'warn' as L);
+      } else {
+        timer.done(message, { status: res.statusCode, size }, levelForStatus(res.statusCode) as L);
+      }
+    };
+    res.once('finish', () => done(false));
+    res.once('close', () => done(!res.writableFinished));
+
+    next?.();
+  };
+}
+
+export { httpLogger };
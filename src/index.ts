@@ -2,6 +2,40 @@
  * minilog-zero - Zero-dependency colorful console logger
  */
 
+import { fileTransport } from './file-transport.js';
+import { createRedactor, RedactOptions } from './redact.js';
+import { inspect, InspectOptions } from './inspect.js';
+import { createJsonReplacer, formatArgs, formatJson } from './format.js';
+import { loadConfig } from './config.js';
+import { httpTransport, syslogTransport } from './remote-transport.js';
+import { memoryTransport, createRingBuffer, MemoryTransport } from './memory-transport.js';
+import { detectRuntime } from './runtime.js';
+import { httpLogger } from './http-logger.js';
+import { getContext, withContext, runWithContext } from './context.js';
+import { normalizeHooks, mergeHooks, runHooks, RecordHook, HookOptions } from './hooks.js';
+import { createThrottle, ThrottleOptions } from './throttle.js';
+import { LEVELS } from './levels.js';
+import { createTimestampFormatter, Clock, RelativeState, TimestampPreset } from './timestamp.js';
+
+export type { FileTransport, FileTransportOptions, RotationInterval } from './file-transport.js';
+export type { RedactOptions } from './redact.js';
+export type { InspectOptions } from './inspect.js';
+export type { SerializedError, StackFrame } from './errors.js';
+export type { ConfigOptions } from './config.js';
+export type { Clock, TimestampPreset } from './timestamp.js';
+export type { MemoryTransport, MemoryTransportOptions } from './memory-transport.js';
+export type {
+  BatchOptions,
+  RemoteTransport,
+  HttpTransportOptions,
+  SyslogTransportOptions,
+  SyslogProtocol,
+} from './remote-transport.js';
+export type { ThrottleOptions } from './throttle.js';
+export type { LogEntry, RecordHook, OutputHook, HookOptions } from './hooks.js';
+export type { Runtime, RuntimeGlobals } from './runtime.js';
+export type { HttpLoggerOptions, HttpMiddleware, LoggedRequest } from './http-logger.js';
+
 // ANSI color codes
 const COLORS = {
   reset: '\x1b[0m',
@@ -10,15 +44,9 @@ const COLORS = {
   yellow: '\x1b[33m',
   red: '\x1b[31m',
   green: '\x1b[32m',
-} as const;
-
-// Log level priorities
-const LEVELS = {
-  debug: 0,
-  info: 1,
-  warn: 2,
-  error: 3,
-  success: 3,
+  blue: '\x1b[34m',
+  magenta: '\x1b[35m',
+  white: '\x1b[37m',
 } as const;
 
 // Emoji icons for each level
@@ -30,6 +58,18 @@ const ICONS = {
   success: '✅',
 } as const;
 
+// CSS equivalents of the ANSI colors, used by browser consoles
+const CSS_COLORS: Record<string, string> = {
+  [COLORS.gray]: 'color: gray',
+  [COLORS.cyan]: 'color: darkcyan',
+  [COLORS.yellow]: 'color: darkgoldenrod',
+  [COLORS.red]: 'color: red',
+  [COLORS.green]: 'color: green',
+  [COLORS.blue]: 'color: royalblue',
+  [COLORS.magenta]: 'color: darkmagenta',
+  [COLORS.white]: 'color: inherit',
+};
+
 // Color mapping for each level
 const LEVEL_COLORS = {
   debug: COLORS.gray,
@@ -39,219 +79,1062 @@ const LEVEL_COLORS = {
   success: COLORS.green,
 } as const;
 
+// Output stream each level is written to by the console
+const LEVEL_STREAMS = {
+  debug: 'stdout',
+  info: 'stdout',
+  warn: 'stderr',
+  error: 'stderr',
+  success: 'stdout',
+} as const;
+
 // Type definitions
 export type LogLevel = keyof typeof LEVELS;
+export type LogFormat = 'pretty' | 'json';
+export type LogStream = 'stdout' | 'stderr';
+export type ColorName = Exclude<keyof typeof COLORS, 'reset'>;
+export type LogMethod = (...args: unknown[]) => void;
+export type OverflowPolicy = 'drop-oldest' | 'drop-newest' | 'block';
+export type MultilineMode = 'none' | 'repeat' | 'gutter';
+
+export interface LevelDefinition {
+  /** Priority used for level filtering (higher is more severe) */
+  priority: number;
+  /** Color name or raw ANSI escape sequence */
+  color?: ColorName | (string & {});
+  /** Emoji or text shown before the message */
+  icon?: string;
+  /** Output stream the console writes this level to */
+  stream?: LogStream;
+}
+
+export type LevelDefinitions<C extends string = string> = { [K in C]: LevelDefinition };
 
-export interface LoggerOptions {
+// Keeps a type parameter from being inferred at this position, like the
+// built-in NoInfer of TypeScript 5.4, which older compilers reading the
+// published declarations do not have
+type NoInference<T> = [T][T extends unknown ? 0 : never];
+
+export interface LoggerOptions<C extends string = never, L extends string = LogLevel> {
   /** Prefix to prepend to all messages */
   prefix?: string;
-  /** Whether to include ISO timestamp */
-  timestamp?: boolean;
+  /** Namespace used for enabling loggers by pattern (e.g. 'api:auth') */
+  name?: string;
+  /** Whether to include a timestamp: true for ISO, a preset or a pattern like 'HH:mm:ss.SSS' */
+  timestamp?: boolean | TimestampPreset | (string & {});
+  /** Print timestamps in UTC instead of local time (ISO timestamps default to UTC) */
+  utc?: boolean;
+  /** Source of the current time (defaults to Date.now) */
+  clock?: Clock;
   /** Minimum log level to display */
-  level?: LogLevel;
+  level?: L | NoInference<C>;
+  /** Additional log levels (or overrides of built-in ones) */
+  levels?: LevelDefinitions<C>;
   /** Whether to show emoji icons */
   icons?: boolean;
+  /** Whether to use ANSI colors ('auto' detects per output stream) */
+  colors?: boolean | 'auto';
+  /** Output format: colored text or one JSON object per line */
+  format?: LogFormat;
+  /** How continuation lines of multi-line output are marked: 'repeat' the icon, timestamp, prefix and level, add a 'gutter', or 'none' */
+  multiline?: MultilineMode;
+  /** Key/value fields attached to every record */
+  bindings?: Record<string, unknown>;
+  /** Destinations that receive every record (defaults to the console) */
+  transports?: Transport[];
+  /** Queue records and write them to the transports in batches */
+  async?: boolean | AsyncOptions;
+  /** Key paths and value patterns to replace with '[REDACTED]' */
+  redact?: string[] | RedactOptions;
+  /** How objects are printed in pretty output */
+  inspect?: InspectOptions;
+  /** Keep the last N records filtered out by level and write them before the next error */
+  errorContext?: number;
+  /** Sampling, rate limiting and deduplication of records */
+  throttle?: ThrottleOptions;
+  /** Functions that enrich, rewrite or drop records (an array is shorthand for { record }) */
+  hooks?: RecordHook[] | HookOptions;
+}
+
+export interface AsyncOptions {
+  /** Maximum number of queued records */
+  highWaterMark?: number;
+  /** What to do with new records when the queue is full */
+  overflow?: OverflowPolicy;
+  /** Maximum number of records written per batch */
+  batchSize?: number;
+  /** Delay in milliseconds before a batch is written (0 writes on the next tick) */
+  flushInterval?: number;
+  /** Called with the total number of dropped records whenever a record is dropped */
+  onDrop?: (dropped: number) => void;
+}
+
+export interface LogRecord {
+  /** Level the record was logged at */
+  level: string;
+  /** Numeric priority of the level */
+  priority: number;
+  /** Output stream the level is routed to */
+  stream: LogStream;
+  /** Time the record was created */
+  timestamp: Date;
+  /** Prefix of the logger that produced the record */
+  prefix: string;
+  /** Namespace of the logger that produced the record */
+  name: string;
+  /** Arguments passed to the log method (after redaction) */
+  args: unknown[];
+  /** Arguments formatted into a single string */
+  message: string;
+  /** Fields bound to the logger with child() */
+  bindings: Record<string, unknown>;
+  /** Fields attached to this record only (e.g. by timers) */
+  fields: Record<string, unknown>;
+  /** Measured duration in milliseconds (set by timers) */
+  duration?: number;
+  /** Fully formatted output line */
+  output: string;
+  /** Console arguments with %c CSS styling, set in browsers when colors are on */
+  css?: string[];
+}
+
+export interface Transport {
+  /** Receive a log record */
+  write(record: LogRecord): void;
+  /** Wait until all received records are written */
+  flush?(): Promise<void>;
+  /** Flush and release resources */
+  close?(): Promise<void>;
+}
+
+interface AsyncTransport extends Transport {
+  /** Synchronously hand every queued record to the transports */
+  drain(): void;
+  flush(): Promise<void>;
+  close(): Promise<void>;
 }
 
-export interface Logger {
+export interface LoggerMethods<L extends string = LogLevel> {
   /** Log debug message (level 0) */
-  debug(...args: unknown[]): void;
+  debug: LogMethod;
   /** Log info message (level 1) */
-  info(...args: unknown[]): void;
+  info: LogMethod;
   /** Log warning message (level 2) */
-  warn(...args: unknown[]): void;
+  warn: LogMethod;
   /** Log error message (level 3) */
-  error(...args: unknown[]): void;
+  error: LogMethod;
   /** Log success message (level 3) */
-  success(...args: unknown[]): void;
+  success: LogMethod;
   /** Create a new logger instance with custom options */
-  create(options?: LoggerOptions): Logger;
+  create<C extends string = never>(options?: LoggerOptions<C, L>): Logger<L | C>;
+  /** Create a child logger that attaches the given fields to every record */
+  child(bindings: Record<string, unknown>): Logger<L>;
   /** Set the minimum log level */
-  setLevel(level: LogLevel): void;
+  setLevel(level: L): void;
   /** Get the current log level */
-  getLevel(): LogLevel;
+  getLevel(): L;
+  /** Write queued records and wait for all transports to finish writing */
+  flush(): Promise<void>;
+  /** Flush and close all transports */
+  close(): Promise<void>;
+  /** Start a timer with the given label */
+  time(label?: string): void;
+  /** Stop a timer and log its duration (at info level by default) */
+  timeEnd(label?: string, level?: L): void;
+  /** Start a timer and return a handle that logs its duration when done */
+  startTimer(): Timer<L>;
+  /** Log a label at info level and indent the following records until groupEnd() */
+  group(...label: unknown[]): void;
+  /** Close the innermost group */
+  groupEnd(): void;
+}
+
+export interface InterceptOptions {
+  /** Log uncaughtException and unhandledRejection at error level */
+  errors?: boolean;
+  /** Exit with code 1 after logging an uncaught error (default: true) */
+  exit?: boolean;
+}
+
+/** Console methods replaced by intercept() */
+type ConsoleMethod = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export interface Timer<L extends string = LogLevel> {
+  /** Log the elapsed time with an optional message and fields (at info level by default); returns the duration in ms */
+  done(message?: string, fields?: Record<string, unknown>, level?: L): number;
+}
+
+/** Logger with a method for every built-in and custom level */
+export type Logger<L extends string = LogLevel> = LoggerMethods<L> & {
+  [K in Exclude<L, LogLevel>]: LogMethod;
+};
+
+export type TestLogger<L extends string = LogLevel> = Logger<L> & Omit<MemoryTransport, 'write'>;
+
+interface NamespaceRule {
+  pattern: RegExp;
+  exclude: boolean;
+  level?: string;
+}
+
+interface NamespaceState {
+  version: number;
+  enabled: boolean;
+  level?: string;
+}
+
+interface PendingRecord {
+  level: string;
+  args: unknown[];
+  fields: Record<string, unknown>;
+  duration?: number;
+  timestamp: Date;
+  /** Number of open groups the record is indented by */
+  depth?: number;
+}
+
+/** Open groups of a logger, shared with its children like console.group */
+interface GroupState {
+  /** Whether each open group indents, innermost last */
+  open: boolean[];
+  /** Number of open groups that indent */
+  depth: number;
+}
+
+/** Options createChild() passes on that are not part of the public API */
+interface InternalOptions<C extends string> extends LoggerOptions<C> {
+  groups?: GroupState;
+  relative?: RelativeState;
+}
+
+interface ResolvedLevel {
+  priority: number;
+  color: string;
+  icon: string;
+  stream: LogStream;
 }
 
 /**
- * Safely stringify a value, handling circular references and special types
- * BUG-004 fix: Handle Error objects properly
- * BUG-005 fix: Handle Map, Set, RegExp and other built-in types
+ * Detect whether a stream supports ANSI colors.
+ * Honors FORCE_COLOR, NO_COLOR and TERM=dumb, then falls back to isTTY.
  */
-function safeStringify(value: unknown): string {
-  if (value === null) return 'null';
-  if (value === undefined) return 'undefined';
-
-  if (typeof value === 'object') {
-    // Handle Error objects specially - they don't stringify well
-    if (value instanceof Error) {
-      const errorObj: Record<string, unknown> = {
-        name: value.name,
-        message: value.message,
-      };
-      if (value.stack) {
-        errorObj.stack = value.stack;
+function supportsColor(streamName: 'stdout' | 'stderr'): boolean {
+  if (typeof process === 'undefined') return false;
+
+  const env = process.env;
+  if (env.FORCE_COLOR !== undefined) {
+    return env.FORCE_COLOR !== '0' && env.FORCE_COLOR !== 'false';
+  }
+  if (env.NO_COLOR !== undefined && env.NO_COLOR !== '') {
+    return false;
+  }
+  if (env.TERM === 'dumb') {
+    return false;
+  }
+
+  const stream = process[streamName];
+  return Boolean(stream && stream.isTTY);
+}
+
+/**
+ * Wrap text in an ANSI color when colors are enabled
+ */
+function paint(text: string, color: string, enabled: boolean): string {
+  return enabled && color ? `${color}${text}${COLORS.reset}` : text;
+}
+
+/**
+ * Merge custom level definitions into the built-in level table
+ */
+function resolveLevels(custom: LevelDefinitions = {}): Record<string, ResolvedLevel> {
+  const table: Record<string, ResolvedLevel> = {};
+  for (const name of Object.keys(LEVELS) as LogLevel[]) {
+    table[name] = {
+      priority: LEVELS[name],
+      color: LEVEL_COLORS[name],
+      icon: ICONS[name],
+      stream: LEVEL_STREAMS[name],
+    };
+  }
+
+  for (const name of Object.keys(custom)) {
+    const definition = custom[name];
+    if (typeof definition?.priority !== 'number' || Number.isNaN(definition.priority)) {
+      throw new TypeError(`Invalid priority for log level "${name}": ${definition?.priority}`);
+    }
+    if (definition.stream !== undefined && definition.stream !== 'stdout' && definition.stream !== 'stderr') {
+      throw new TypeError(`Invalid stream for log level "${name}": "${definition.stream}". Valid streams: stdout, stderr`);
+    }
+
+    const base = table[name] as ResolvedLevel | undefined;
+    const color = definition.color;
+    table[name] = {
+      priority: definition.priority,
+      color: color !== undefined ? (COLORS[color as ColorName] ?? color) : base?.color ?? '',
+      icon: definition.icon ?? base?.icon ?? '',
+      stream: definition.stream ?? base?.stream ?? 'stdout',
+    };
+  }
+
+  return table;
+}
+
+/**
+ * Format fields as space separated key=value pairs
+ */
+function formatFields(fields: Record<string, unknown>): string {
+  return Object.keys(fields).map(key => {
+    const value = fields[key];
+    if (typeof value === 'string') {
+      return `${key}=${/[\s="]/.test(value) ? JSON.stringify(value) : value}`;
+    }
+    if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
+      try {
+        return `${key}=${JSON.stringify(value, createJsonReplacer())}`;
+      } catch {
+        return `${key}=${String(value)}`;
       }
-      // Include any custom properties on the error
-      for (const key of Object.keys(value)) {
-        errorObj[key] = (value as unknown as Record<string, unknown>)[key];
+    }
+    return `${key}=${inspect(value)}`;
+  }).join(' ');
+}
+
+/**
+ * Format a duration in milliseconds for humans (e.g. 850µs, 45.2ms, 1.25s, 2m 5s)
+ */
+function formatDuration(ms: number): string {
+  // Units are picked after rounding, so 59999.9ms is 1m 0s rather than 60s
+  const micros = Math.round(ms * 1000);
+  if (micros < 1000) return `${micros}µs`;
+  const millis = Number(ms.toFixed(1));
+  if (millis < 1000) return `${millis}ms`;
+  const seconds = Number((ms / 1000).toFixed(2));
+  if (seconds < 60) return `${seconds}s`;
+  const total = Math.round(ms / 1000);
+  return `${Math.floor(total / 60)}m ${total % 60}s`;
+}
+
+/**
+ * Read a high-resolution timestamp in nanoseconds
+ */
+function hrtime(): bigint {
+  if (typeof process !== 'undefined' && typeof process.hrtime?.bigint === 'function') {
+    return process.hrtime.bigint();
+  }
+  return BigInt(Math.round(performance.now() * 1e6));
+}
+
+/**
+ * Parse a namespace pattern list such as "app:*,-app:db,api:*=warn".
+ * Patterns are separated by commas or whitespace, a leading "-" excludes
+ * matching namespaces and a "=level" suffix overrides their minimum level.
+ */
+function parseNamespaces(patterns: string): NamespaceRule[] {
+  const rules: NamespaceRule[] = [];
+  for (const item of patterns.split(/[\s,]+/)) {
+    if (!item) continue;
+
+    const exclude = item.startsWith('-');
+    const [glob, level] = (exclude ? item.slice(1) : item).split('=');
+    if (!glob) continue;
+
+    const source = glob.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    rules.push({
+      pattern: new RegExp(`^${source}$`),
+      exclude,
+      level: exclude ? undefined : level || undefined,
+    });
+  }
+  return rules;
+}
+
+// Active namespace patterns (null means every namespace is enabled)
+let namespacePatterns: string | null = null;
+let namespaceRules: NamespaceRule[] = [];
+// Incremented on every change so loggers can cache their namespace state
+let namespaceVersion = 0;
+
+/**
+ * Enable namespaces matching the given patterns (e.g. "app:*,-app:db,api:*=warn").
+ * Named loggers that match no pattern are disabled; unnamed loggers are unaffected.
+ */
+function enable(patterns: string): void {
+  namespacePatterns = patterns;
+  namespaceRules = parseNamespaces(patterns);
+  namespaceVersion++;
+}
+
+/**
+ * Disable all named loggers and return the previously active patterns
+ */
+function disable(): string {
+  const previous = namespacePatterns ?? '*';
+  enable('');
+  return previous;
+}
+
+/**
+ * Resolve whether a namespace is enabled and its level override, if any
+ */
+function resolveNamespace(name: string): Omit<NamespaceState, 'version'> {
+  if (namespacePatterns === null) {
+    return { enabled: true };
+  }
+
+  let enabled = false;
+  let level: string | undefined;
+  for (const rule of namespaceRules) {
+    if (!rule.pattern.test(name)) continue;
+    if (rule.exclude) {
+      return { enabled: false };
+    }
+    enabled = true;
+    level = rule.level ?? level;
+  }
+  return { enabled, level };
+}
+
+/**
+ * Check whether a namespace is enabled by the active patterns
+ */
+function isEnabled(name: string): boolean {
+  return resolveNamespace(name).enabled;
+}
+
+// Console methods saved by intercept(), used by the console transport
+// so intercepted output does not loop back into the logger
+let originalConsole: Pick<Console, ConsoleMethod> | null = null;
+
+/**
+ * Create a transport that writes to console.error, console.warn or console.log
+ * depending on the record level
+ */
+function consoleTransport(): Transport {
+  return {
+    write(record: LogRecord): void {
+      const target = originalConsole ?? console;
+      const args = record.css ?? [record.output];
+      if (record.level === 'warn') {
+        target.warn(...args);
+      } else if (record.stream === 'stderr') {
+        target.error(...args);
+      } else {
+        target.log(...args);
       }
-      return JSON.stringify(errorObj, null, 2);
+    },
+  };
+}
+
+/**
+ * Route console.log/info/warn/error/debug through a logger and optionally log
+ * uncaught errors. Returns a function that restores the original behavior.
+ */
+function intercept(
+  logger: Pick<LoggerMethods, 'debug' | 'info' | 'warn' | 'error' | 'flush'>,
+  options: InterceptOptions = {}
+): () => void {
+  if (originalConsole) {
+    throw new Error('console is already intercepted. Call the restore function first');
+  }
+
+  const saved: Pick<Console, ConsoleMethod> = {
+    log: console.log,
+    info: console.info,
+    warn: console.warn,
+    error: console.error,
+    debug: console.debug,
+  };
+  const levels: Record<ConsoleMethod, 'debug' | 'info' | 'warn' | 'error'> = {
+    log: 'info',
+    info: 'info',
+    warn: 'warn',
+    error: 'error',
+    debug: 'debug',
+  };
+  originalConsole = saved;
+
+  // Calls made while the logger is writing go straight to the real console
+  let writing = false;
+  for (const method of Object.keys(levels) as ConsoleMethod[]) {
+    console[method] = (...args: unknown[]) => {
+      if (writing) {
+        saved[method].apply(console, args);
+        return;
+      }
+      writing = true;
+      try {
+        logger[levels[method]](...args);
+      } finally {
+        writing = false;
+      }
+    };
+  }
+
+  const exitOnError = options.exit ?? true;
+  const handleError = (label: string) => (error: unknown) => {
+    logger.error(label, error);
+    if (exitOnError) {
+      logger.flush().finally(() => process.exit(1));
     }
+  };
+  const onException = handleError('Uncaught exception:');
+  const onRejection = handleError('Unhandled rejection:');
+  if (options.errors && typeof process !== 'undefined') {
+    process.on('uncaughtException', onException);
+    process.on('unhandledRejection', onRejection);
+  }
 
-    // Handle Map
-    if (value instanceof Map) {
-      return `Map(${value.size}) ${JSON.stringify(Object.fromEntries(value), null, 2)}`;
+  return () => {
+    if (originalConsole !== saved) return;
+    Object.assign(console, saved);
+    originalConsole = null;
+    if (typeof process !== 'undefined') {
+      process.removeListener('uncaughtException', onException);
+      process.removeListener('unhandledRejection', onRejection);
     }
+  };
+}
 
-    // Handle Set
-    if (value instanceof Set) {
-      return `Set(${value.size}) ${JSON.stringify([...value], null, 2)}`;
+// Async queues that are drained when the process exits
+const activeQueues = new Set<AsyncTransport>();
+let exitHooksInstalled = false;
+
+/**
+ * Drain every async queue when the process is about to exit.
+ * On SIGTERM the transports are flushed before the process exits.
+ */
+function installExitHooks(): void {
+  if (exitHooksInstalled || typeof process === 'undefined' || typeof process.on !== 'function') return;
+  exitHooksInstalled = true;
+
+  const drainAll = () => {
+    for (const queue of activeQueues) {
+      queue.drain();
     }
+  };
+
+  process.on('beforeExit', drainAll);
+  process.on('exit', drainAll);
+  process.once('SIGTERM', () => {
+    Promise.all([...activeQueues].map(queue => queue.flush())).finally(() => {
+      // Only exit if nobody else handles the signal
+      if (process.listenerCount('SIGTERM') === 0) {
+        process.exit(143);
+      }
+    });
+  });
+}
 
-    // Handle RegExp
-    if (value instanceof RegExp) {
-      return value.toString();
+/**
+ * Wrap transports in a bounded queue that writes records in batches
+ */
+function asyncTransport(transports: Transport[], options: AsyncOptions = {}): AsyncTransport {
+  const highWaterMark = options.highWaterMark ?? 1000;
+  const overflow = options.overflow ?? 'drop-oldest';
+  const batchSize = options.batchSize ?? 100;
+  const flushInterval = options.flushInterval ?? 0;
+
+  if (overflow !== 'drop-oldest' && overflow !== 'drop-newest' && overflow !== 'block') {
+    throw new TypeError(`Invalid overflow policy: "${overflow}". Valid policies: drop-oldest, drop-newest, block`);
+  }
+  if (!(highWaterMark >= 1)) {
+    throw new TypeError(`Invalid highWaterMark: ${highWaterMark}. Must be at least 1`);
+  }
+
+  let queue: LogRecord[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let dropped = 0;
+  let closed = false;
+
+  /**
+   * Write up to `limit` queued records to every transport
+   */
+  function writeBatch(limit: number): void {
+    const batch = queue.splice(0, limit);
+    for (const record of batch) {
+      for (const transport of transports) {
+        transport.write(record);
+      }
     }
+  }
 
-    // Handle Date (already works but be explicit)
-    if (value instanceof Date) {
-      return value.toISOString();
+  /**
+   * Write the next batch and schedule another one if records remain
+   */
+  function tick(): void {
+    timer = null;
+    writeBatch(batchSize);
+    if (queue.length > 0) {
+      schedule();
     }
+  }
 
-    try {
-      const seen = new WeakSet();
-      return JSON.stringify(value, (_key, val) => {
-        if (typeof val === 'bigint') {
-          return val.toString() + 'n';
-        }
-        if (typeof val === 'object' && val !== null) {
-          if (seen.has(val)) {
-            return '[Circular]';
-          }
-          seen.add(val);
-        }
-        return val;
-      }, 2);
-    } catch {
-      return String(value);
+  function schedule(): void {
+    if (timer !== null) return;
+    timer = setTimeout(tick, flushInterval);
+  }
+
+  function drain(): void {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
     }
+    writeBatch(queue.length);
   }
 
-  // Handle BigInt
-  if (typeof value === 'bigint') {
-    return value.toString() + 'n';
+  function drop(): void {
+    dropped++;
+    options.onDrop?.(dropped);
   }
 
-  return String(value);
-}
+  const queueTransport: AsyncTransport = {
+    write(record: LogRecord): void {
+      if (closed) return;
 
-/**
- * Format arguments into a single string
- */
-function formatArgs(args: unknown[]): string {
-  return args.map(arg => {
-    if (typeof arg === 'string') return arg;
-    return safeStringify(arg);
-  }).join(' ');
+      if (queue.length >= highWaterMark) {
+        if (overflow === 'drop-newest') {
+          drop();
+          return;
+        }
+        if (overflow === 'drop-oldest') {
+          queue.shift();
+          drop();
+        } else {
+          // Block: write the backlog synchronously before accepting more
+          drain();
+        }
+      }
+
+      queue.push(record);
+      schedule();
+    },
+
+    drain,
+
+    async flush(): Promise<void> {
+      drain();
+      await Promise.all(transports.map(transport => transport.flush?.()));
+    },
+
+    async close(): Promise<void> {
+      if (closed) return;
+      await queueTransport.flush();
+      closed = true;
+      queue = [];
+      activeQueues.delete(queueTransport);
+      await Promise.all(transports.map(transport => transport.close?.()));
+    },
+  };
+
+  activeQueues.add(queueTransport);
+  installExitHooks();
+  return queueTransport;
 }
 
 /**
  * Create a new logger instance
  */
-function createLogger(options: LoggerOptions = {}): Logger {
-  let currentLevel: LogLevel = options.level ?? 'debug';
+function createLogger<C extends string = never>(options: LoggerOptions<C> = {}): Logger<LogLevel | C> {
+  const customLevels: LevelDefinitions = options.levels ?? {};
+  const levelTable = resolveLevels(customLevels);
+  let currentLevel: string = options.level ?? 'debug';
   const prefix = options.prefix ?? '';
+  const name = options.name ?? '';
+  let namespaceState: NamespaceState = { version: -1, enabled: true };
   const showTimestamp = options.timestamp ?? false;
+  const utc = options.utc;
+  const clock = options.clock ?? Date.now;
+  const relative: RelativeState = (options as InternalOptions<C>).relative ?? { previous: null };
+  const formatTimestamp = showTimestamp ? createTimestampFormatter(showTimestamp, utc, relative) : null;
   const showIcons = options.icons ?? true;
+  const format = options.format ?? 'pretty';
+  const multiline = options.multiline ?? 'none';
+  const colors = options.colors ?? 'auto';
+  // Browsers are styled with CSS; Deno, Bun and workers print plain text unless colors are forced
+  const runtime = detectRuntime();
+  const useCss = runtime === 'browser' && colors !== false;
+  const streamColors = {
+    stdout: !useCss && (colors === 'auto' ? runtime === 'node' && supportsColor('stdout') : colors),
+    stderr: !useCss && (colors === 'auto' ? runtime === 'node' && supportsColor('stderr') : colors),
+  };
+  const inspectOptions = options.inspect ?? {};
+  const redactOptions = options.redact;
+  const redactor = redactOptions ? createRedactor(redactOptions) : null;
+  const bindings = (redactor ? redactor(options.bindings ?? {}) : options.bindings ?? {}) as Record<string, unknown>;
+  const timers = new Map<string, bigint>();
+  const groups: GroupState = (options as InternalOptions<C>).groups ?? { open: [], depth: 0 };
+  const transports = options.transports ?? [consoleTransport()];
+  const asyncOptions = options.async === true ? {} : options.async || null;
+  const errorContext = options.errorContext ?? 0;
+
+  // In async mode every record goes through a shared queue
+  const outputs: Transport[] = asyncOptions ? [asyncTransport(transports, asyncOptions)] : transports;
+
+  if (!Object.prototype.hasOwnProperty.call(levelTable, currentLevel)) {
+    throw new TypeError(`Invalid log level: "${currentLevel}". Valid levels: ${Object.keys(levelTable).join(', ')}`);
+  }
+  if (multiline !== 'none' && multiline !== 'repeat' && multiline !== 'gutter') {
+    throw new TypeError(`Invalid multiline mode: "${multiline}". Valid modes: none, repeat, gutter`);
+  }
+  if (!Number.isInteger(errorContext) || errorContext < 0) {
+    throw new TypeError(`Invalid errorContext: ${errorContext}. Expected a non-negative integer`);
+  }
+  const contextBuffer = errorContext > 0 ? createRingBuffer<PendingRecord>(errorContext) : null;
+  const hooks = normalizeHooks(options.hooks);
+  const throttleOptions = options.throttle;
+  const throttle = throttleOptions
+    ? createThrottle<PendingRecord>(
+      throttleOptions,
+      level => levelTable[level].priority < levelTable.warn.priority,
+      // The summary repeats the first record's arguments, so it is redacted and formatted like it
+      ({ level, args, fields, depth }, summary) => write({ level, args: [...args, summary], fields, depth, timestamp: new Date(clock()) })
+    )
+    : null;
 
   /**
    * Check if a message at the given level should be logged
    */
-  function shouldLog(level: LogLevel): boolean {
-    return LEVELS[level] >= LEVELS[currentLevel];
+  function shouldLog(level: string): boolean {
+    const minLevel = minimumLevel();
+    return minLevel !== null && levelTable[level].priority >= levelTable[minLevel].priority;
   }
 
   /**
-   * Format and output a log message
+   * Get the minimum level to log, or null when the namespace is disabled
    */
-  function log(level: LogLevel, args: unknown[]): void {
-    if (!shouldLog(level)) return;
+  function minimumLevel(): string | null {
+    // Namespace patterns can disable the logger or override its level
+    if (name) {
+      if (namespaceState.version !== namespaceVersion) {
+        namespaceState = { version: namespaceVersion, ...resolveNamespace(name) };
+      }
+      if (!namespaceState.enabled) return null;
+      if (namespaceState.level && Object.prototype.hasOwnProperty.call(levelTable, namespaceState.level)) {
+        return namespaceState.level;
+      }
+    }
+    return currentLevel;
+  }
 
-    const parts: string[] = [];
-    const color = LEVEL_COLORS[level];
+  /**
+   * Format a log entry as colored text, indented by the number of open groups
+   */
+  function formatPretty(record: Omit<LogRecord, 'output'>, depth = 0): Pick<LogRecord, 'output' | 'css'> {
+    const { level, timestamp, prefix, message } = record;
+    // Each part is a piece of text and the color it is painted in
+    const parts: Array<[text: string, color: string]> = [];
+    const { color, icon, stream } = levelTable[level];
+    const useColors = streamColors[stream];
 
     // Add icon
-    if (showIcons) {
-      parts.push(ICONS[level]);
+    if (showIcons && icon) {
+      parts.push([icon, '']);
     }
 
     // Add timestamp
-    if (showTimestamp) {
-      parts.push(`${COLORS.gray}[${new Date().toISOString()}]${COLORS.reset}`);
+    if (formatTimestamp) {
+      parts.push([`[${formatTimestamp(timestamp)}]`, COLORS.gray]);
     }
 
     // Add prefix
     if (prefix) {
-      parts.push(`${color}${prefix}${COLORS.reset}`);
+      parts.push([prefix, color]);
     }
 
     // Add level name
-    parts.push(`${color}[${level.toUpperCase()}]${COLORS.reset}`);
-
-    // Add message
-    parts.push(formatArgs(args));
-
-    // Output to appropriate console method
-    const output = parts.join(' ');
-    switch (level) {
-      case 'error':
-        console.error(output);
-        break;
-      case 'warn':
-        console.warn(output);
-        break;
-      default:
-        console.log(output);
+    parts.push([`[${level.toUpperCase()}]`, color]);
+    const headerLength = parts.length;
+
+    // Add message (re-rendered to color error headers and stack frames)
+    const hasErrors = record.args.some(arg => arg instanceof Error);
+    const indent = '  '.repeat(depth);
+    parts.push([indent + (useColors && hasErrors ? formatArgs(record.args, { ...inspectOptions, colors: true }) : message), '']);
+
+    // Add bound and record fields
+    const fields = { ...record.bindings, ...record.fields };
+    if (Object.keys(fields).length > 0) {
+      parts.push([formatFields(fields), '']);
+    }
+
+    // Add duration
+    if (record.duration !== undefined) {
+      parts.push([`duration=${formatDuration(record.duration)}`, '']);
+    }
+
+    const painted = parts.map(([text, partColor]) => paint(text, partColor, useColors));
+    const header = painted.slice(0, headerLength).join(' ');
+    const [first, ...rest] = painted.slice(headerLength).join(' ').split('\n');
+
+    // Continuation lines keep the group indentation and are marked as the mode says
+    let lead = '';
+    if (multiline === 'repeat') {
+      lead = header + ' ';
+    } else if (multiline === 'gutter') {
+      lead = paint(prefix ? `${prefix} │` : '│', color, useColors) + ' ';
     }
+    const output = [`${header} ${first}`, ...rest.map(line => lead + indent + line)].join('\n');
+    if (!useCss) return { output };
+
+    // Text is passed as %s arguments so % signs in messages are printed as-is
+    const css = [parts.map(() => '%c%s').join(' ')];
+    for (const [text, partColor] of parts) {
+      css.push(CSS_COLORS[partColor] ?? '', text);
+    }
+    return { output, css };
+  }
+
+  /**
+   * Format and output a log message
+   */
+  function log(level: string, rawArgs: unknown[], rawFields: Record<string, unknown> = {}, duration?: number): void {
+    const timestamp = new Date(clock());
+    // Fields of the active async context are captured now, per-call fields win
+    const context = getContext();
+    const fields = context ? { ...context, ...rawFields } : rawFields;
+    const pending: PendingRecord = { level, args: rawArgs, fields, duration, timestamp, depth: groups.depth };
+
+    if (!shouldLog(level)) {
+      // Keep records filtered by level so they can be written before an error
+      if (contextBuffer && minimumLevel() !== null) {
+        contextBuffer.push(pending);
+      }
+      return;
+    }
+
+    // Drop sampled, rate limited and duplicate records
+    if (throttle && !throttle.allow(level, formatArgs(rawArgs, inspectOptions), timestamp.getTime(), pending)) {
+      return;
+    }
+
+    if (contextBuffer && levelTable[level].priority >= levelTable.error.priority) {
+      const context = contextBuffer.toArray();
+      contextBuffer.clear();
+      context.forEach(write);
+    }
+    write(pending);
   }
 
-  const logger: Logger = {
-    debug: (...args: unknown[]) => log('debug', args),
-    info: (...args: unknown[]) => log('info', args),
-    warn: (...args: unknown[]) => log('warn', args),
-    error: (...args: unknown[]) => log('error', args),
-    success: (...args: unknown[]) => log('success', args),
+  /**
+   * Build a record and hand it to every transport
+   */
+  function write({ level, args, fields, duration, timestamp, depth }: PendingRecord): void {
+    // Record hooks see the values before redaction, so anything they add is redacted too.
+    // They get copies, so changing a record in place does not leak into later records.
+    const hasRecordHooks = hooks.record.length > 0;
+    const hooked = !hasRecordHooks
+      ? { level, timestamp, prefix, name, args, bindings, fields, duration }
+      : runHooks(hooks.record, {
+        level, timestamp, prefix, name, duration, args: [...args], bindings: { ...bindings }, fields: { ...fields },
+      });
+    if (!hooked) return;
+    if (!Object.prototype.hasOwnProperty.call(levelTable, hooked.level)) {
+      throw new TypeError(`Invalid log level: "${hooked.level}". Valid levels: ${Object.keys(levelTable).join(', ')}`);
+    }
+
+    const redacted = !redactor ? hooked : {
+      ...hooked,
+      args: hooked.args.map(redactor),
+      fields: redactor(hooked.fields) as Record<string, unknown>,
+      // Bindings were redacted when the logger was created unless a hook could have changed them
+      bindings: hasRecordHooks ? redactor(hooked.bindings) as Record<string, unknown> : bindings,
+    };
+    const { priority, stream } = levelTable[redacted.level];
+
+    const entry: Omit<LogRecord, 'output'> = {
+      ...redacted,
+      priority,
+      stream,
+      message: formatArgs(redacted.args, inspectOptions),
+    };
+
+    const formatted = format === 'json' ? { output: formatJson(entry, inspectOptions) } : formatPretty(entry, depth);
+    const record = runHooks(hooks.output, { ...entry, ...formatted });
+    if (!record) return;
+    // CSS arguments no longer match an output rewritten by a hook
+    if (record.css && record.output !== formatted.output) {
+      delete record.css;
+    }
+    for (const transport of outputs) {
+      transport.write(record);
+    }
+  }
 
-    // BUG-003 fix: Child logger inherits parent options, can override
-    create: (newOptions?: LoggerOptions) => createLogger({
+  // BUG-003 fix: Child logger inherits parent options, can override
+  function createChild(newOptions: LoggerOptions<string, string> = {}): Logger<string> {
+    return createLogger({
       prefix,
+      name,
       timestamp: showTimestamp,
+      utc,
+      clock,
       level: currentLevel,
       icons: showIcons,
+      colors,
+      format,
+      multiline,
+      bindings,
+      redact: redactOptions,
+      inspect: inspectOptions,
+      errorContext,
+      throttle: throttleOptions,
+      // Children write through the parent's queue in async mode
+      transports: outputs,
       ...newOptions,
+      levels: { ...customLevels, ...newOptions.levels },
+      // Hooks added to a child run after the inherited ones
+      hooks: mergeHooks(hooks, newOptions.hooks),
+      // Children are indented by the parent's groups and share them
+      groups,
+      // Relative timestamps count from the previous line of the parent or any child
+      relative,
+    } as InternalOptions<string>);
+  }
+
+  const logger: Record<string, unknown> = {
+    create: createChild,
+
+    child: (childBindings: Record<string, unknown>) => createChild({
+      bindings: { ...bindings, ...childBindings },
     }),
 
-    setLevel: (level: LogLevel) => {
+    setLevel: (level: string) => {
       // BUG-002 fix: Throw error for invalid levels instead of silent failure
-      if (!(level in LEVELS)) {
-        throw new TypeError(`Invalid log level: "${level}". Valid levels: ${Object.keys(LEVELS).join(', ')}`);
+      if (!Object.prototype.hasOwnProperty.call(levelTable, level)) {
+        throw new TypeError(`Invalid log level: "${level}". Valid levels: ${Object.keys(levelTable).join(', ')}`);
       }
       currentLevel = level;
     },
 
     getLevel: () => currentLevel,
+
+    flush: async () => {
+      throttle?.flush();
+      await Promise.all(outputs.map(transport => transport.flush?.()));
+    },
+
+    close: async () => {
+      throttle?.flush();
+      await Promise.all(outputs.map(transport => transport.close?.()));
+    },
+
+    time: (label = 'default') => {
+      timers.set(label, hrtime());
+    },
+
+    timeEnd: (label = 'default', level = 'info') => {
+      if (!Object.prototype.hasOwnProperty.call(levelTable, level)) {
+        throw new TypeError(`Invalid log level: "${level}". Valid levels: ${Object.keys(levelTable).join(', ')}`);
+      }
+      const start = timers.get(label);
+      if (start === undefined) {
+        log('warn', [`No such timer: "${label}"`]);
+        return;
+      }
+      timers.delete(label);
+      log(level, [label], {}, Number(hrtime() - start) / 1e6);
+    },
+
+    startTimer: (): Timer<string> => {
+      const start = hrtime();
+      return {
+        done: (message = '', fields = {}, level = 'info') => {
+          if (!Object.prototype.hasOwnProperty.call(levelTable, level)) {
+            throw new TypeError(`Invalid log level: "${level}". Valid levels: ${Object.keys(levelTable).join(', ')}`);
+          }
+          const duration = Number(hrtime() - start) / 1e6;
+          log(level, message ? [message] : [], fields, duration);
+          return duration;
+        },
+      };
+    },
+
+    group: (...label: unknown[]) => {
+      // Groups whose label is filtered out do not indent, so nothing is nested under a missing label
+      const visible = shouldLog('info');
+      if (label.length > 0) {
+        log('info', label);
+      }
+      groups.open.push(visible);
+      if (visible) groups.depth++;
+    },
+
+    groupEnd: () => {
+      if (groups.open.pop()) groups.depth--;
+    },
   };
 
-  return logger;
+  // Add a log method for every level
+  for (const levelName of Object.keys(levelTable)) {
+    if (levelName in logger) {
+      throw new TypeError(`Invalid log level name: "${levelName}" is reserved`);
+    }
+    logger[levelName] = (...args: unknown[]) => log(levelName, args);
+  }
+
+  return logger as unknown as Logger<LogLevel | C>;
+}
+
+/**
+ * Create a logger that keeps its records in memory for assertions in tests
+ */
+function createTestLogger<C extends string = never>(
+  options: LoggerOptions<C> & { limit?: number } = {}
+): TestLogger<LogLevel | C> {
+  const { limit, ...loggerOptions } = options;
+  const memory = memoryTransport({ limit });
+  const logger = createLogger({ colors: false, ...loggerOptions, transports: [memory] });
+
+  for (const helper of ['records', 'find', 'clear', 'dump']) {
+    if (helper in logger) {
+      throw new TypeError(`Invalid log level name: "${helper}" is reserved`);
+    }
+  }
+
+  return Object.defineProperties(logger, {
+    records: { get: () => memory.records, enumerable: true },
+    find: { value: memory.find, enumerable: true },
+    clear: { value: memory.clear, enumerable: true },
+    dump: { value: memory.dump, enumerable: true },
+  }) as TestLogger<LogLevel | C>;
+}
+
+// Read namespace patterns from the environment
+if (typeof process !== 'undefined' && process.env.MINILOG_NAMESPACES !== undefined) {
+  enable(process.env.MINILOG_NAMESPACES);
+}
+
+/**
+ * Read the default logger's settings from the environment in runtimes that
+ * have one. An invalid setting is reported and left out while the valid ones
+ * still apply, so a typo does not stop every program that imports the package.
+ */
+function defaultOptions(): LoggerOptions {
+  if (!['node', 'bun', 'deno'].includes(detectRuntime())) return {};
+  return loadConfig(process.env, process.cwd(), error => {
+    process.stderr.write(`minilog-zero: ${error.message} (ignored)\n`);
+  });
 }
 
 // Create and export default logger instance
-const defaultLogger = createLogger();
+const defaultLogger = createLogger(defaultOptions());
 
 export default defaultLogger;
-export { createLogger as create };
-
-// CommonJS compatibility
-module.exports = defaultLogger;
-module.exports.default = defaultLogger;
-module.exports.create = createLogger;
+export {
+  createLogger as create,
+  consoleTransport,
+  fileTransport,
+  memoryTransport,
+  httpTransport,
+  syslogTransport,
+  createTestLogger,
+  enable,
+  disable,
+  isEnabled,
+  intercept,
+  httpLogger,
+  loadConfig,
+  withContext,
+  runWithContext,
+  getContext,
+  detectRuntime,
+};
@@ -0,0 +1,308 @@
+/**
+ * minilog-zero - Depth-limited object inspection for pretty output
+ */
+
+import { isLibraryFrame, stackLines } from './errors.js';
+
+// ANSI codes used for error rendering
+const ERROR_COLORS = {
+  reset: '\x1b[0m',
+  header: '\x1b[1m\x1b[31m',
+  frame: '\x1b[90m',
+  library: '\x1b[2m\x1b[90m',
+} as const;
+
+export interface InspectOptions {
+  /** How many levels of nested objects to show (deeper ones become [Object]) */
+  depth?: number;
+  /** Maximum number of array, Set, Map and typed array entries to show */
+  maxArrayLength?: number;
+  /** Maximum number of characters of a string to show */
+  maxStringLength?: number;
+  /** Print objects on a single line */
+  compact?: boolean;
+  /** Whether to color error headers and stack frames */
+  colors?: boolean;
+  /** How to show stack frames from node_modules and Node.js internals */
+  libraryFrames?: 'show' | 'dim' | 'hide';
+}
+
+const DEFAULT_OPTIONS: Required<InspectOptions> = {
+  depth: 4,
+  maxArrayLength: 100,
+  maxStringLength: 10000,
+  compact: false,
+  colors: false,
+  libraryFrames: 'dim',
+};
+
+/**
+ * Get the constructor name of an object, or null for plain objects
+ */
+function getClassName(value: object): string | null {
+  const proto = Object.getPrototypeOf(value);
+  if (proto === null) return '[Object: null prototype]';
+  if (proto === Object.prototype) return null;
+  const name = proto.constructor?.name;
+  return typeof name === 'string' && name ? name : null;
+}
+
+/**
+ * Describe a function the way Node's util.inspect does
+ */
+function formatFunction(fn: Function): string {
+  const source = Function.prototype.toString.call(fn);
+  if (source.startsWith('class')) {
+    return `[class ${fn.name || '(anonymous)'}]`;
+  }
+  return `[Function: ${fn.name || '(anonymous)'}]`;
+}
+
+/**
+ * Check whether a value is a Node.js Buffer (without requiring Buffer to exist)
+ */
+function isBuffer(value: object): value is Uint8Array {
+  return typeof Buffer !== 'undefined' && Buffer.isBuffer(value);
+}
+
+/**
+ * Inspect a value into a readable string.
+ * BUG-004 fix: Handle Error objects properly
+ * BUG-005 fix: Handle Map, Set, RegExp and other built-in types
+ */
+function inspect(value: unknown, options: InspectOptions = {}): string {
+  const { depth, maxArrayLength, maxStringLength, compact, colors, libraryFrames } = { ...DEFAULT_OPTIONS, ...options };
+  // Objects currently being printed, used to detect circular references
+  const ancestors: object[] = [];
+
+  function formatString(text: string): string {
+    if (text.length > maxStringLength) {
+      const remaining = text.length - maxStringLength;
+      return `${JSON.stringify(text.slice(0, maxStringLength))}... ${remaining} more character${remaining > 1 ? 's' : ''}`;
+    }
+    return JSON.stringify(text);
+  }
+
+  function formatKey(key: string | symbol): string {
+    return typeof key === 'symbol' ? `[${key.toString()}]` : JSON.stringify(key);
+  }
+
+  /**
+   * Join entries into a block such as `{ a, b }` or a multi-line equivalent
+   */
+  function block(open: string, close: string, entries: string[], indent: string): string {
+    if (entries.length === 0) return `${open}${close}`;
+    if (compact) return `${open} ${entries.join(', ')} ${close}`;
+    const inner = indent + '  ';
+    return `${open}\n${inner}${entries.join(`,\n${inner}`)}\n${indent}${close}`;
+  }
+
+  function paint(text: string, color: string): string {
+    return colors ? `${color}${text}${ERROR_COLORS.reset}` : text;
+  }
+
+  function more(count: number): string {
+    return `... ${count} more item${count > 1 ? 's' : ''}`;
+  }
+
+  function formatValue(val: unknown, level: number, indent: string, nested: boolean): string {
+    if (val === null) return 'null';
+    if (val === undefined) return 'undefined';
+
+    switch (typeof val) {
+      case 'string':
+        return nested ? formatString(val) : val;
+      case 'bigint':
+        return `${val}n`;
+      case 'symbol':
+        return val.toString();
+      case 'function':
+        return formatFunction(val);
+      case 'object':
+        break;
+      default:
+        return String(val);
+    }
+
+    const obj = val as object;
+
+    if (obj instanceof Date) {
+      return Number.isNaN(obj.getTime()) ? 'Invalid Date' : obj.toISOString();
+    }
+    if (obj instanceof RegExp) {
+      return obj.toString();
+    }
+    if (obj instanceof WeakMap || obj instanceof WeakSet) {
+      return `${getClassName(obj) ?? 'Object'} { <items unknown> }`;
+    }
+    if (obj instanceof Promise) {
+      return 'Promise { <state unknown> }';
+    }
+
+    if (ancestors.includes(obj)) {
+      return '[Circular]';
+    }
+
+    const className = getClassName(obj);
+    if (level > depth) {
+      if (Array.isArray(obj)) return '[Array]';
+      return `[${className && !className.startsWith('[') ? className : 'Object'}]`;
+    }
+
+    ancestors.push(obj);
+    try {
+      return formatObject(obj, className, level, indent);
+    } finally {
+      ancestors.pop();
+    }
+  }
+
+  function formatList(items: unknown[], total: number, level: number, indent: string): string[] {
+    const shown = Math.min(total, maxArrayLength);
+    const entries: string[] = [];
+    for (let i = 0; i < shown; i++) {
+      entries.push(formatValue(items[i], level + 1, indent + '  ', true));
+    }
+    if (total > shown) {
+      entries.push(more(total - shown));
+    }
+    return entries;
+  }
+
+  function formatProperties(obj: object, level: number, indent: string, keys: Array<string | symbol>): string[] {
+    return keys.map(key => {
+      const descriptor = Object.getOwnPropertyDescriptor(obj, key);
+      let formatted: string;
+      if (descriptor && !('value' in descriptor)) {
+        formatted = descriptor.get && descriptor.set ? '[Getter/Setter]' : descriptor.get ? '[Getter]' : '[Setter]';
+      } else {
+        formatted = formatValue((obj as Record<string | symbol, unknown>)[key], level + 1, indent + '  ', true);
+      }
+      return `${formatKey(key)}: ${formatted}`;
+    });
+  }
+
+  function ownKeys(obj: object): Array<string | symbol> {
+    const symbols = Object.getOwnPropertySymbols(obj).filter(symbol =>
+      Object.prototype.propertyIsEnumerable.call(obj, symbol)
+    );
+    return [...Object.keys(obj), ...symbols];
+  }
+
+  /**
+   * Render an error as a header line followed by its stack frames, custom
+   * properties, cause chain and (for AggregateError) the errors it wraps
+   */
+  function formatError(error: Error, level: number, indent: string): string {
+    const header = error.message ? `${error.name}: ${error.message}` : error.name;
+    const { cause, errors } = error as Error & { cause?: unknown; errors?: unknown };
+    const extraIndent = indent + '  ';
+
+    // Include any custom properties on the error
+    const keys = Object.keys(error).filter(key => key !== 'cause' && key !== 'errors');
+    const props = formatProperties(error, level, extraIndent, keys);
+
+    if (compact) {
+      const entries = [...props];
+      if (cause !== undefined) {
+        entries.push(`[cause]: ${formatValue(cause, level, extraIndent, true)}`);
+      }
+      if (Array.isArray(errors)) {
+        entries.push(`[errors]: ${block('[', ']', formatList(errors, errors.length, level, extraIndent), extraIndent)}`);
+      }
+      return `[${header}]${entries.length ? ' ' + block('{', '}', entries, indent) : ''}`;
+    }
+
+    const lines = [paint(header, ERROR_COLORS.header)];
+
+    for (const frame of stackLines(error)) {
+      if (!isLibraryFrame(frame)) {
+        lines.push(`${indent}    ${paint(frame, ERROR_COLORS.frame)}`);
+      } else if (libraryFrames !== 'hide') {
+        lines.push(`${indent}    ${paint(frame, libraryFrames === 'dim' ? ERROR_COLORS.library : ERROR_COLORS.frame)}`);
+      }
+    }
+
+    if (props.length > 0) {
+      lines.push(`${extraIndent}${block('{', '}', props, extraIndent)}`);
+    }
+
+    if (Array.isArray(errors)) {
+      const inner = extraIndent + '  ';
+      const shown = errors.slice(0, maxArrayLength).map(item => inner + formatValue(item, level + 1, inner, true));
+      if (errors.length > shown.length) {
+        shown.push(inner + more(errors.length - shown.length));
+      }
+      lines.push(`${extraIndent}[errors]: [`, ...shown, `${extraIndent}]`);
+    }
+
+    // Causes stay at the same depth so the whole chain is shown
+    if (cause !== undefined) {
+      lines.push(`${extraIndent}[cause]: ${formatValue(cause, level, extraIndent, true)}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  function formatObject(obj: object, className: string | null, level: number, indent: string): string {
+    const label = className ? `${className} ` : '';
+
+    // Handle Error objects specially - they don't stringify well
+    if (obj instanceof Error) {
+      return formatError(obj, level, indent);
+    }
+
+    if (isBuffer(obj)) {
+      const shown = Math.min(obj.length, maxArrayLength);
+      const bytes = Array.from(obj.subarray(0, shown), byte => byte.toString(16).padStart(2, '0'));
+      if (obj.length > shown) {
+        bytes.push(`... ${obj.length - shown} more byte${obj.length - shown > 1 ? 's' : ''}`);
+      }
+      return `<Buffer${bytes.length ? ' ' + bytes.join(' ') : ''}>`;
+    }
+
+    if (ArrayBuffer.isView(obj) && !(obj instanceof DataView)) {
+      const view = obj as unknown as ArrayLike<unknown>;
+      const items = Array.prototype.slice.call(view, 0, maxArrayLength);
+      return block(`${className}(${view.length}) [`, ']', formatList(items, view.length, level, indent), indent);
+    }
+
+    if (obj instanceof ArrayBuffer) {
+      return `ArrayBuffer { byteLength: ${obj.byteLength} }`;
+    }
+
+    if (Array.isArray(obj)) {
+      const prefix = className && className !== 'Array' ? `${className}(${obj.length}) ` : '';
+      return prefix + block('[', ']', formatList(obj, obj.length, level, indent), indent);
+    }
+
+    if (obj instanceof Map) {
+      const entries: string[] = [];
+      let count = 0;
+      for (const [key, item] of obj) {
+        if (count++ >= maxArrayLength) break;
+        const formattedKey = formatValue(key, level + 1, indent + '  ', true);
+        entries.push(`${formattedKey} => ${formatValue(item, level + 1, indent + '  ', true)}`);
+      }
+      if (obj.size > maxArrayLength) {
+        entries.push(more(obj.size - maxArrayLength));
+      }
+      return block(`${className ?? 'Map'}(${obj.size}) {`, '}', entries, indent);
+    }
+
+    if (obj instanceof Set) {
+      const items = [...obj];
+      return block(`${className ?? 'Set'}(${obj.size}) {`, '}', formatList(items, items.length, level, indent), indent);
+    }
+
+    return label + block('{', '}', formatProperties(obj, level, indent, ownKeys(obj)), indent);
+  }
+
+  try {
+    return formatValue(value, 0, '', false);
+  } catch {
+    return typeof value === 'object' ? Object.prototype.toString.call(value) : String(value);
+  }
+}
+
+export { inspect };
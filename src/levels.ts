@@ -0,0 +1,14 @@
+/**
+ * minilog-zero - Built-in log levels
+ */
+
+// Priorities of the built-in levels, shared by the logger, the config loader and the CLI
+const LEVELS = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  success: 3,
+} as const;
+
+export { LEVELS };
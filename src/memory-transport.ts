@@ -0,0 +1,98 @@
+/**
+ * minilog-zero - In-memory transport for tests and error context
+ */
+
+import { stripAnsi } from './file-transport.js';
+import type { LogRecord, Transport } from './index.js';
+
+export interface MemoryTransportOptions {
+  /** Maximum number of records to keep; older ones are discarded */
+  limit?: number;
+}
+
+export interface MemoryTransport extends Transport {
+  /** Kept records, oldest first */
+  readonly records: LogRecord[];
+  /** Find the first record at a level whose message matches a pattern */
+  find(level?: string, pattern?: string | RegExp): LogRecord | undefined;
+  /** Remove all kept records */
+  clear(): void;
+  /** Get the output of all kept records without ANSI codes, one per line */
+  dump(): string;
+}
+
+export interface RingBuffer<T> {
+  push(item: T): void;
+  /** Items in insertion order, oldest first */
+  toArray(): T[];
+  clear(): void;
+}
+
+/**
+ * Create a fixed-size buffer that overwrites its oldest item when full
+ */
+function createRingBuffer<T>(capacity: number): RingBuffer<T> {
+  let items: T[] = [];
+  let start = 0;
+
+  return {
+    push(item: T): void {
+      if (items.length < capacity) {
+        items.push(item);
+      } else {
+        items[start] = item;
+        start = (start + 1) % capacity;
+      }
+    },
+
+    toArray(): T[] {
+      return [...items.slice(start), ...items.slice(0, start)];
+    },
+
+    clear(): void {
+      items = [];
+      start = 0;
+    },
+  };
+}
+
+/**
+ * Create a transport that keeps the most recent records in memory
+ */
+function memoryTransport(options: MemoryTransportOptions = {}): MemoryTransport {
+  const limit = options.limit ?? 1000;
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new TypeError(`Invalid memory transport limit: ${limit}. Expected a positive integer`);
+  }
+  const buffer = createRingBuffer<LogRecord>(limit);
+
+  return {
+    write(record: LogRecord): void {
+      buffer.push(record);
+    },
+
+    get records(): LogRecord[] {
+      return buffer.toArray();
+    },
+
+    find(level?: string, pattern?: string | RegExp): LogRecord | undefined {
+      return buffer.toArray().find(record => {
+        if (level !== undefined && record.level !== level) return false;
+        if (pattern === undefined) return true;
+        if (typeof pattern === 'string') return record.message.includes(pattern);
+        pattern.lastIndex = 0;
+        return pattern.test(record.message);
+      });
+    },
+
+    clear(): void {
+      buffer.clear();
+    },
+
+    dump(): string {
+      return buffer.toArray().map(record => stripAnsi(record.output)).join('\n');
+    },
+  };
+}
+
+export { memoryTransport, createRingBuffer };
@@ -0,0 +1,145 @@
+/**
+ * minilog-zero - Redaction of sensitive values
+ */
+
+export interface RedactOptions {
+  /**
+   * Key paths to redact, e.g. 'req.headers.authorization'.
+   * `*` matches exactly one key, `**` matches any number of keys.
+   */
+  paths?: string[];
+  /** Patterns matched against string values; matching values are redacted */
+  values?: RegExp[];
+  /** Replacement for redacted values */
+  censor?: string;
+}
+
+export type Redactor = (value: unknown) => unknown;
+
+/**
+ * Check whether a key path matches a path pattern split into segments
+ */
+function matchesPath(pattern: string[], path: string[], p = 0, k = 0): boolean {
+  if (p === pattern.length) return k === path.length;
+
+  if (pattern[p] === '**') {
+    // Try to consume zero or more keys
+    for (let skip = k; skip <= path.length; skip++) {
+      if (matchesPath(pattern, path, p + 1, skip)) return true;
+    }
+    return false;
+  }
+
+  if (k === path.length) return false;
+  return (pattern[p] === '*' || pattern[p] === path[k]) && matchesPath(pattern, path, p + 1, k + 1);
+}
+
+/**
+ * Check whether a value is an object whose own keys should be walked
+ */
+function isWalkable(value: object): boolean {
+  return !(
+    value instanceof Date ||
+    value instanceof RegExp ||
+    value instanceof Promise ||
+    value instanceof WeakMap ||
+    value instanceof WeakSet ||
+    ArrayBuffer.isView(value) ||
+    value instanceof ArrayBuffer
+  );
+}
+
+/**
+ * Create a function that returns a copy of a value with sensitive keys and
+ * values replaced. Objects, arrays, Maps, Sets and Error properties are
+ * walked recursively; the original value is never modified.
+ */
+function createRedactor(options: string[] | RedactOptions): Redactor | null {
+  const { paths = [], values = [], censor = '[REDACTED]' } = Array.isArray(options)
+    ? { paths: options }
+    : options;
+
+  for (const pattern of values) {
+    if (!(pattern instanceof RegExp)) {
+      throw new TypeError(`Invalid redact value pattern: ${String(pattern)}. Expected a RegExp`);
+    }
+  }
+  if (paths.length === 0 && values.length === 0) return null;
+
+  const patterns = paths.map(path => path.split('.'));
+
+  function isRedactedPath(path: string[]): boolean {
+    return patterns.some(pattern => matchesPath(pattern, path));
+  }
+
+  function isRedactedString(value: string): boolean {
+    return values.some(pattern => {
+      pattern.lastIndex = 0;
+      return pattern.test(value);
+    });
+  }
+
+  function walk(value: unknown, path: string[], seen: Map<object, unknown>): unknown {
+    if (path.length > 0 && isRedactedPath(path)) return censor;
+    if (typeof value === 'string') return isRedactedString(value) ? censor : value;
+    if (typeof value !== 'object' || value === null || !isWalkable(value)) return value;
+
+    // Keep circular references pointing at the copy
+    if (seen.has(value)) return seen.get(value);
+
+    if (Array.isArray(value)) {
+      const copy: unknown[] = [];
+      seen.set(value, copy);
+      value.forEach((item, index) => {
+        copy.push(walk(item, [...path, String(index)], seen));
+      });
+      return copy;
+    }
+
+    if (value instanceof Map) {
+      const copy = new Map();
+      seen.set(value, copy);
+      for (const [key, item] of value) {
+        copy.set(key, walk(item, [...path, String(key)], seen));
+      }
+      return copy;
+    }
+
+    if (value instanceof Set) {
+      const copy = new Set();
+      seen.set(value, copy);
+      for (const item of value) {
+        copy.add(walk(item, path, seen));
+      }
+      return copy;
+    }
+
+    // Copy own properties (including non-enumerable Error fields) onto an
+    // object with the same prototype so formatting is unchanged
+    const copy = Object.create(Object.getPrototypeOf(value));
+    seen.set(value, copy);
+    const keys = value instanceof Error ? Object.getOwnPropertyNames(value) : Object.keys(value);
+    for (const key of keys) {
+      const descriptor = Object.getOwnPropertyDescriptor(value, key);
+      if (!descriptor) continue;
+      if ('value' in descriptor && key !== 'stack') {
+        descriptor.value = walk(descriptor.value, [...path, key], seen);
+      }
+      Object.defineProperty(copy, key, descriptor);
+    }
+
+    // The stack repeats the message, so hide it there too
+    if (value instanceof Error && copy.message !== value.message && typeof value.stack === 'string' && value.message) {
+      Object.defineProperty(copy, 'stack', {
+        value: value.stack.split(value.message).join(censor),
+        writable: true,
+        configurable: true,
+      });
+    }
+    return copy;
+  }
+
+  return (value: unknown) => walk(value, [], new Map());
+}
+
+export { createRedactor };
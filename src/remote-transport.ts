@@ -0,0 +1,480 @@
+/**
+ * minilog-zero - HTTP and syslog transports with batching and retry
+ */
+
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import dgram from 'dgram';
+import os from 'os';
+import { formatJson, createJsonReplacer } from './format.js';
+import { stripAnsi } from './file-transport.js';
+import type { LogRecord, Transport } from './index.js';
+
+export interface BatchOptions {
+  /** Maximum number of records sent at once (default: 100) */
+  batchSize?: number;
+  /** Time to wait for a batch to fill up in milliseconds (default: 1000) */
+  flushInterval?: number;
+  /** Maximum number of records kept while the endpoint is down; the oldest are dropped (default: 10000) */
+  maxSpool?: number;
+  /** Delay before the first retry in milliseconds, doubled on every failure (default: 500) */
+  retryDelay?: number;
+  /** Upper bound of the retry delay in milliseconds (default: 30000) */
+  maxRetryDelay?: number;
+  /** Called with the number of records just dropped and the total dropped so far */
+  onDrop?: (count: number, total: number) => void;
+  /** Called when sending a batch fails (defaults to writing to stderr) */
+  onError?: (error: Error) => void;
+}
+
+export interface RemoteTransport extends Transport {
+  /** Number of records dropped because the spool was full or the transport closed */
+  readonly dropped: number;
+  /** Number of records waiting to be sent */
+  readonly pending: number;
+  /** Try to send all pending records now; records that fail stay spooled */
+  flush(): Promise<void>;
+  /** Flush, drop whatever could not be sent and release the connection */
+  close(): Promise<void>;
+}
+
+export interface HttpTransportOptions extends BatchOptions {
+  /** Endpoint URL (http: or https:) */
+  url: string;
+  /** Extra request headers, e.g. for authorization */
+  headers?: Record<string, string>;
+  /** Request timeout in milliseconds (default: 10000) */
+  timeout?: number;
+}
+
+export type SyslogProtocol = 'udp' | 'tcp';
+
+export interface SyslogTransportOptions extends BatchOptions {
+  /** Syslog server host (default: localhost) */
+  host?: string;
+  /** Syslog server port (default: 514) */
+  port?: number;
+  /** Transport protocol (default: udp) */
+  protocol?: SyslogProtocol;
+  /** Syslog facility code from 0 to 23 (default: 1, user-level) */
+  facility?: number;
+  /** APP-NAME header field (default: "-") */
+  appName?: string;
+  /** HOSTNAME header field (defaults to os.hostname()) */
+  hostname?: string;
+  /** Severity (0-7) for each level, merged over the defaults */
+  severities?: Record<string, number>;
+  /** Connection timeout for TCP in milliseconds (default: 10000) */
+  timeout?: number;
+}
+
+/** Error of a failed send; `retry: false` drops the batch instead of retrying it */
+type BatchError = Error & { retry?: boolean };
+
+interface Batcher {
+  push(line: string): void;
+  flush(): Promise<void>;
+  close(): Promise<void>;
+  readonly dropped: number;
+  readonly pending: number;
+}
+
+// Syslog severities of the built-in levels (RFC 5424 section 6.2.1)
+const SYSLOG_SEVERITIES: Record<string, number> = {
+  debug: 7,
+  info: 6,
+  success: 5,
+  warn: 4,
+  error: 3,
+};
+
+// Example enterprise number reserved for documentation (RFC 5612)
+const STRUCTURED_DATA_ID = 'fields@32473';
+
+/**
+ * Check that a numeric option is an integer within a range
+ */
+function validateInteger(name: string, value: number, min: number, max = Infinity): void {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    const range = max === Infinity ? `an integer of at least ${min}` : `an integer from ${min} to ${max}`;
+    throw new TypeError(`Invalid ${name}: ${value}. Expected ${range}`);
+  }
+}
+
+/**
+ * Create the spool shared by remote transports. Lines are sent in batches
+ * when a batch is full or the flush interval passes. Failed batches go back
+ * to the front of the spool and are retried with exponential backoff,
+ * unless the error says retrying is pointless.
+ */
+function createBatcher(
+  name: string,
+  send: (lines: string[]) => Promise<void>,
+  options: BatchOptions
+): Batcher {
+  const {
+    batchSize = 100,
+    flushInterval = 1000,
+    maxSpool = 10000,
+    retryDelay = 500,
+    maxRetryDelay = 30000,
+    onDrop,
+  } = options;
+  const onError = options.onError ?? ((error: Error) => {
+    process.stderr.write(`minilog-zero: ${name} transport error: ${error.message}\n`);
+  });
+
+  validateInteger(`${name} batchSize`, batchSize, 1);
+  validateInteger(`${name} maxSpool`, maxSpool, 1);
+  validateInteger(`${name} flushInterval`, flushInterval, 0);
+  validateInteger(`${name} retryDelay`, retryDelay, 0);
+  validateInteger(`${name} maxRetryDelay`, maxRetryDelay, 0);
+
+  let spool: string[] = [];
+  let inFlight: string[] = [];
+  let sending: Promise<boolean> | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let failures = 0;
+  let dropped = 0;
+  let closed = false;
+
+  function drop(count: number): void {
+    if (count === 0) return;
+    dropped += count;
+    onDrop?.(count, dropped);
+  }
+
+  /**
+   * Drop the oldest spooled lines that do not fit. Lines being sent count
+   * towards the cap but are never dropped here.
+   */
+  function trim(): void {
+    const excess = Math.min(spool.length, spool.length + inFlight.length - maxSpool);
+    if (excess > 0) {
+      spool.splice(0, excess);
+      drop(excess);
+    }
+  }
+
+  function schedule(delay: number): void {
+    if (timer || closed) return;
+    timer = setTimeout(() => {
+      timer = null;
+      sendBatch();
+    }, delay);
+    timer.unref?.();
+  }
+
+  /**
+   * Send the next batch. Resolves to false when sending failed.
+   */
+  function sendBatch(): Promise<boolean> {
+    if (sending) return sending;
+    if (spool.length === 0) return Promise.resolve(true);
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+
+    inFlight = spool.splice(0, batchSize);
+    sending = send(inFlight).then(
+      () => {
+        failures = 0;
+        return true;
+      },
+      (error: BatchError) => {
+        onError(error);
+        if (error.retry === false) {
+          drop(inFlight.length);
+          return true;
+        }
+        failures++;
+        spool = [...inFlight, ...spool];
+        return false;
+      }
+    ).then(ok => {
+      inFlight = [];
+      sending = null;
+      trim();
+      if (!ok) {
+        // Replace any flush timer set while sending with the backoff delay
+        if (timer) {
+          clearTimeout(timer);
+          timer = null;
+        }
+        schedule(Math.min(maxRetryDelay, retryDelay * 2 ** (failures - 1)));
+      } else if (spool.length >= batchSize) {
+        sendBatch();
+      } else if (spool.length > 0) {
+        schedule(flushInterval);
+      }
+      return ok;
+    });
+    return sending;
+  }
+
+  async function flush(): Promise<void> {
+    // Every pass either sends a batch or gives up, so a dead endpoint cannot hang flush()
+    while (spool.length > 0 || sending) {
+      if (!(await sendBatch())) return;
+    }
+  }
+
+  return {
+    push(line: string): void {
+      if (closed) {
+        drop(1);
+        return;
+      }
+      spool.push(line);
+      trim();
+      // While backing off the retry timer is already scheduled
+      if (!sending && failures === 0 && spool.length >= batchSize) {
+        sendBatch();
+      } else {
+        schedule(flushInterval);
+      }
+    },
+
+    flush,
+
+    async close(): Promise<void> {
+      if (closed) return;
+      await flush();
+      closed = true;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      drop(spool.length);
+      spool = [];
+    },
+
+    get dropped(): number {
+      return dropped;
+    },
+
+    get pending(): number {
+      return spool.length + inFlight.length;
+    },
+  };
+}
+
+/**
+ * Wrap a batcher and a record formatter into a transport
+ */
+function createRemoteTransport(
+  batcher: Batcher,
+  format: (record: LogRecord) => string,
+  release: () => void
+): RemoteTransport {
+  return {
+    write(record: LogRecord): void {
+      batcher.push(format(record));
+    },
+
+    flush: batcher.flush,
+
+    async close(): Promise<void> {
+      await batcher.close();
+      release();
+    },
+
+    get dropped(): number {
+      return batcher.dropped;
+    },
+
+    get pending(): number {
+      return batcher.pending;
+    },
+  };
+}
+
+/**
+ * Create a transport that POSTs batches of records as newline-delimited JSON.
+ * Each line has the same shape as `format: 'json'` output. Server errors and
+ * network failures are retried; other 4xx responses drop the batch.
+ */
+function httpTransport(options: HttpTransportOptions): RemoteTransport {
+  const url = new URL(options.url);
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new TypeError(`Invalid HTTP transport url: "${options.url}". Valid protocols: http, https`);
+  }
+  const client = url.protocol === 'https:' ? https : http;
+  const timeout = options.timeout ?? 10000;
+  const agent = new client.Agent({ keepAlive: true });
+
+  const send = (lines: string[]) => new Promise<void>((resolve, reject) => {
+    const body = lines.join('\n') + '\n';
+    const request = client.request(url, {
+      method: 'POST',
+      agent,
+      timeout,
+      headers: {
+        'content-type': 'application/x-ndjson',
+        'content-length': Buffer.byteLength(body),
+        ...options.headers,
+      },
+    }, response => {
+      response.resume();
+      const status = response.statusCode ?? 0;
+      if (status >= 200 && status < 300) {
+        resolve();
+        return;
+      }
+      const error: BatchError = new Error(`HTTP transport request failed with status ${status}`);
+      // The request itself was rejected, so retrying would fail the same way
+      error.retry = status < 400 || status >= 500 || status === 408 || status === 429;
+      reject(error);
+    });
+    request.on('timeout', () => request.destroy(new Error(`HTTP transport request timed out after ${timeout}ms`)));
+    request.on('error', reject);
+    request.end(body);
+  });
+
+  return createRemoteTransport(
+    createBatcher('HTTP', send, options),
+    record => formatJson(record, {}),
+    () => agent.destroy()
+  );
+}
+
+/**
+ * Make a value safe for a syslog header field: printable ASCII only,
+ * limited in length, "-" when empty
+ */
+function headerField(value: string, maxLength: number): string {
+  const safe = value.replace(/[^\x21-\x7e]/g, '_').slice(0, maxLength);
+  return safe || '-';
+}
+
+/**
+ * Format bindings and record fields as an RFC 5424 structured data element
+ */
+function structuredData(fields: Record<string, unknown>): string {
+  const params = Object.keys(fields).map(key => {
+    const value = fields[key];
+    let text: string;
+    if (typeof value === 'string') {
+      text = value;
+    } else {
+      try {
+        text = JSON.stringify(value, createJsonReplacer()) ?? String(value);
+      } catch {
+        text = String(value);
+      }
+    }
+    const name = key.replace(/[^\x21-\x7e]|[= \]"]/g, '_').slice(0, 32);
+    return `${name}="${text.replace(/["\\\]]/g, '\\$&')}"`;
+  });
+  return params.length > 0 ? `[${STRUCTURED_DATA_ID} ${params.join(' ')}]` : '-';
+}
+
+/**
+ * Pick the syslog severity of a record. Custom levels without a mapping
+ * get one from their priority.
+ */
+function severityFor(record: LogRecord, severities: Record<string, number>): number {
+  const severity = severities[record.level];
+  if (severity !== undefined) return severity;
+  if (record.priority >= 3) return 3;
+  if (record.priority === 2) return 4;
+  return record.priority === 1 ? 6 : 7;
+}
+
+/**
+ * Create a transport that sends records to a syslog server in RFC 5424
+ * format, over UDP (one datagram per record) or TCP (octet-counted frames,
+ * RFC 6587). Bindings, record fields and object arguments become
+ * structured data.
+ */
+function syslogTransport(options: SyslogTransportOptions = {}): RemoteTransport {
+  const host = options.host ?? 'localhost';
+  const port = options.port ?? 514;
+  const protocol = options.protocol ?? 'udp';
+  const facility = options.facility ?? 1;
+  const timeout = options.timeout ?? 10000;
+  const severities = { ...SYSLOG_SEVERITIES, ...options.severities };
+  const hostname = headerField(options.hostname ?? os.hostname(), 255);
+  const appName = headerField(options.appName ?? '-', 48);
+  const procId = headerField(String(process.pid), 128);
+
+  if (protocol !== 'udp' && protocol !== 'tcp') {
+    throw new TypeError(`Invalid syslog protocol: "${protocol}". Valid protocols: udp, tcp`);
+  }
+  validateInteger('syslog port', port, 0, 65535);
+  validateInteger('syslog facility', facility, 0, 23);
+  for (const [level, severity] of Object.entries(severities)) {
+    validateInteger(`syslog severity for "${level}"`, severity, 0, 7);
+  }
+
+  const format = (record: LogRecord): string => {
+    // Object arguments and errors become fields the same way as in JSON output
+    const { time, level, priority, prefix, name, msg, ...fields } = JSON.parse(formatJson(record, {}));
+    const pri = facility * 8 + severityFor(record, severities);
+    const message = stripAnsi(msg);
+    const header = `<${pri}>1 ${time} ${hostname} ${appName} ${procId} ${headerField(record.name, 32)}`;
+    return `${header} ${structuredData(fields)}${message ? ' ' + message : ''}`;
+  };
+
+  let udp: dgram.Socket | null = null;
+  let tcp: Promise<net.Socket> | null = null;
+
+  const sendUdp = async (lines: string[]) => {
+    if (!udp) {
+      udp = dgram.createSocket(net.isIPv6(host) ? 'udp6' : 'udp4');
+      udp.on('error', () => {});
+      udp.unref();
+    }
+    const socket = udp;
+    for (const line of lines) {
+      await new Promise<void>((resolve, reject) => {
+        socket.send(Buffer.from(line), port, host, error => (error ? reject(error) : resolve()));
+      });
+    }
+  };
+
+  const connect = () => new Promise<net.Socket>((resolve, reject) => {
+    const socket = net.connect({ host, port, timeout });
+    socket.unref();
+    const fail = (error: Error) => {
+      tcp = null;
+      socket.destroy();
+      reject(error);
+    };
+    socket.once('connect', () => {
+      socket.off('error', fail);
+      socket.setTimeout(0);
+      // A broken connection is replaced on the next send
+      socket.on('error', () => {});
+      socket.on('close', () => {
+        tcp = null;
+      });
+      resolve(socket);
+    });
+    socket.once('timeout', () => fail(new Error(`syslog connection timed out after ${timeout}ms`)));
+    socket.once('error', fail);
+  });
+
+  const sendTcp = async (lines: string[]) => {
+    tcp ??= connect();
+    const socket = await tcp;
+    const frames = lines.map(line => `${Buffer.byteLength(line)} ${line}`).join('');
+    await new Promise<void>((resolve, reject) => {
+      socket.write(frames, error => (error ? reject(error) : resolve()));
+    });
+  };
+
+  const release = () => {
+    udp?.close();
+    udp = null;
+    tcp?.then(socket => socket.end(), () => {});
+    tcp = null;
+  };
+
+  const batcher = createBatcher('syslog', protocol === 'udp' ? sendUdp : sendTcp, options);
+  return createRemoteTransport(batcher, format, release);
+}
+
+export { httpTransport, syslogTransport };
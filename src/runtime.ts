@@ -0,0 +1,38 @@
+/**
+ * minilog-zero - JavaScript runtime detection
+ */
+
+export type Runtime = 'node' | 'bun' | 'deno' | 'browser' | 'worker' | 'unknown';
+
+/** The globals detectRuntime() looks at */
+export interface RuntimeGlobals {
+  Deno?: { version?: { deno?: unknown } };
+  Bun?: unknown;
+  process?: { versions?: { node?: unknown; bun?: unknown } };
+  window?: unknown;
+  document?: unknown;
+  WorkerGlobalScope?: unknown;
+  importScripts?: unknown;
+  EdgeRuntime?: unknown;
+}
+
+/**
+ * Detect the runtime from its globals. Deno and Bun are checked before
+ * Node.js because they also provide a `process` global.
+ */
+function detectRuntime(globals: RuntimeGlobals = globalThis as RuntimeGlobals): Runtime {
+  if (typeof globals.Deno?.version?.deno === 'string') return 'deno';
+  if (typeof globals.Bun !== 'undefined' || typeof globals.process?.versions?.bun === 'string') return 'bun';
+  if (typeof globals.window !== 'undefined' && typeof globals.document !== 'undefined') return 'browser';
+  if (
+    typeof globals.WorkerGlobalScope !== 'undefined' ||
+    typeof globals.importScripts === 'function' ||
+    typeof globals.EdgeRuntime !== 'undefined'
+  ) {
+    return 'worker';
+  }
+  if (typeof globals.process?.versions?.node === 'string') return 'node';
+  return 'unknown';
+}
+
+export { detectRuntime };
@@ -0,0 +1,176 @@
+/**
+ * minilog-zero - Sampling, rate limiting and deduplication
+ */
+
+export interface ThrottleOptions {
+  /**
+   * Maximum number of records per level in each interval. A number applies
+   * to levels below warn; use an object like { warn: 100 } for other levels.
+   */
+  limit?: number | Record<string, number>;
+  /**
+   * Fraction of records to keep, from 0 to 1. A number applies to levels
+   * below warn; use an object like { debug: 0.1, warn: 0.5 } for other levels.
+   */
+  sample?: number | Record<string, number>;
+  /** Collapse identical messages at the same level within an interval */
+  dedupe?: boolean;
+  /** Length of the rate limit and dedupe window in milliseconds (default: 10000) */
+  interval?: number;
+  /** Source of random numbers for sampling (defaults to Math.random) */
+  random?: () => number;
+}
+
+export interface Throttle<T> {
+  /**
+   * Check whether a record should be written, counting it if it is not.
+   * `message` identifies duplicates; `record` is handed back for the summary.
+   */
+  allow(level: string, message: string, now: number, record: T): boolean;
+  /** Report pending duplicate counts right away */
+  flush(): void;
+}
+
+/** Called with the first of a run of duplicates and the "repeated N times" text */
+export type SummaryHandler<T> = (record: T, summary: string) => void;
+
+interface Window {
+  start: number;
+  count: number;
+}
+
+interface Duplicate<T> extends Window {
+  record: T;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+// Prune expired duplicates once this many distinct messages are tracked
+const MAX_TRACKED_MESSAGES = 1000;
+
+/**
+ * Resolve a per-level setting: numbers only apply to levels that are
+ * throttled by default (those below warn)
+ */
+function settingFor(
+  setting: number | Record<string, number> | undefined,
+  level: string,
+  throttledByDefault: boolean
+): number | undefined {
+  if (typeof setting === 'number') return throttledByDefault ? setting : undefined;
+  return setting?.[level];
+}
+
+/**
+ * Check that every value of a per-level setting is valid
+ */
+function validateSetting(
+  name: string,
+  setting: number | Record<string, number> | undefined,
+  isValid: (value: number) => boolean,
+  expected: string
+): void {
+  if (setting === undefined) return;
+  const values = typeof setting === 'number' ? [setting] : Object.values(setting);
+  for (const value of values) {
+    if (typeof value !== 'number' || !isValid(value)) {
+      throw new TypeError(`Invalid throttle ${name}: ${value}. Expected ${expected}`);
+    }
+  }
+}
+
+/**
+ * Format a window length as seconds when it is a whole number of them
+ */
+function formatInterval(ms: number): string {
+  return ms % 1000 === 0 ? `${ms / 1000}s` : `${ms}ms`;
+}
+
+/**
+ * Create the throttling state of a logger. `isThrottledByDefault` tells
+ * whether plain number settings apply to a level; `onSummary` writes the
+ * "repeated N times" line for deduplicated messages.
+ */
+function createThrottle<T>(
+  options: ThrottleOptions,
+  isThrottledByDefault: (level: string) => boolean,
+  onSummary: SummaryHandler<T>
+): Throttle<T> {
+  const { limit, sample, dedupe = false, interval = 10000, random = Math.random } = options;
+
+  if (!Number.isFinite(interval) || interval <= 0) {
+    throw new TypeError(`Invalid throttle interval: ${interval}. Expected a positive number of milliseconds`);
+  }
+  validateSetting('limit', limit, value => Number.isInteger(value) && value >= 0, 'a non-negative integer');
+  validateSetting('sample', sample, value => value >= 0 && value <= 1, 'a number from 0 to 1');
+
+  const windows = new Map<string, Window>();
+  const duplicates = new Map<string, Duplicate<T>>();
+
+  function report(key: string, duplicate: Duplicate<T>): void {
+    if (duplicate.timer) {
+      clearTimeout(duplicate.timer);
+      duplicate.timer = null;
+    }
+    if (duplicate.count > 0) {
+      const times = duplicate.count === 1 ? 'time' : 'times';
+      onSummary(duplicate.record, `… repeated ${duplicate.count} ${times} in ${formatInterval(interval)}`);
+      duplicate.count = 0;
+    }
+    duplicates.delete(key);
+  }
+
+  function isDuplicate(level: string, message: string, now: number, record: T): boolean {
+    const key = `${level}\0${message}`;
+    const duplicate = duplicates.get(key);
+
+    if (duplicate && now - duplicate.start < interval) {
+      duplicate.count++;
+      if (!duplicate.timer) {
+        duplicate.timer = setTimeout(() => report(key, duplicate), duplicate.start + interval - now);
+        duplicate.timer.unref?.();
+      }
+      return true;
+    }
+
+    if (duplicate) {
+      report(key, duplicate);
+    } else if (duplicates.size >= MAX_TRACKED_MESSAGES) {
+      for (const [trackedKey, tracked] of duplicates) {
+        if (now - tracked.start >= interval) report(trackedKey, tracked);
+      }
+    }
+    duplicates.set(key, { record, start: now, count: 0, timer: null });
+    return false;
+  }
+
+  function isOverLimit(level: string, max: number, now: number): boolean {
+    let window = windows.get(level);
+    if (!window || now - window.start >= interval) {
+      window = { start: now, count: 0 };
+      windows.set(level, window);
+    }
+    return window.count++ >= max;
+  }
+
+  return {
+    allow(level: string, message: string, now: number, record: T): boolean {
+      const throttledByDefault = isThrottledByDefault(level);
+
+      const rate = settingFor(sample, level, throttledByDefault);
+      if (rate !== undefined && random() >= rate) return false;
+
+      if (dedupe && isDuplicate(level, message, now, record)) return false;
+
+      const max = settingFor(limit, level, throttledByDefault);
+      return max === undefined || !isOverLimit(level, max, now);
+    },
+
+    flush(): void {
+      for (const [key, duplicate] of duplicates) {
+        if (duplicate.count > 0) report(key, duplicate);
+      }
+    },
+  };
+}
+
+export { createThrottle };
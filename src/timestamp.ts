@@ -0,0 +1,133 @@
+/**
+ * minilog-zero - Timestamp presets and format patterns
+ */
+
+export type TimestampPreset = 'iso' | 'time' | 'epoch' | 'relative' | 'elapsed';
+
+/** A function returning the current time, used instead of Date.now() */
+export type Clock = () => Date | number;
+
+export type TimestampFormatter = (date: Date) => string;
+
+/** Time of the previous line for the 'relative' preset, shared by a logger and its children */
+export interface RelativeState {
+  previous: number | null;
+}
+
+const PRESETS: TimestampPreset[] = ['iso', 'time', 'epoch', 'relative', 'elapsed'];
+
+// Tokens recognized in format patterns, longest first so SSS wins over ss
+const TOKEN_PATTERN = /YYYY|SSS|MM|DD|HH|mm|ss|Z/g;
+
+// When the process started, used by the 'elapsed' preset
+const processStart = typeof process !== 'undefined' && typeof process.uptime === 'function'
+  ? Date.now() - process.uptime() * 1000
+  : Date.now();
+
+/**
+ * Check that a timestamp option is a preset or a pattern with at least one token
+ */
+function validateTimestamp(format: string, source = 'timestamp format'): void {
+  TOKEN_PATTERN.lastIndex = 0;
+  if (!PRESETS.includes(format as TimestampPreset) && !TOKEN_PATTERN.test(format)) {
+    throw new TypeError(
+      `Invalid ${source}: "${format}". Valid formats: ${PRESETS.join(', ')} or a pattern like HH:mm:ss.SSS`
+    );
+  }
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+/**
+ * Format a UTC offset in minutes (as returned by getTimezoneOffset) as +HH:mm
+ */
+function formatOffset(offset: number): string {
+  const sign = offset <= 0 ? '+' : '-';
+  const minutes = Math.abs(offset);
+  return `${sign}${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+/**
+ * Replace the tokens of a pattern with parts of a date
+ */
+function formatPattern(pattern: string, date: Date, utc: boolean): string {
+  const parts: Record<string, string> = utc
+    ? {
+      YYYY: pad(date.getUTCFullYear(), 4),
+      MM: pad(date.getUTCMonth() + 1),
+      DD: pad(date.getUTCDate()),
+      HH: pad(date.getUTCHours()),
+      mm: pad(date.getUTCMinutes()),
+      ss: pad(date.getUTCSeconds()),
+      SSS: pad(date.getUTCMilliseconds(), 3),
+      Z: 'Z',
+    }
+    : {
+      YYYY: pad(date.getFullYear(), 4),
+      MM: pad(date.getMonth() + 1),
+      DD: pad(date.getDate()),
+      HH: pad(date.getHours()),
+      mm: pad(date.getMinutes()),
+      ss: pad(date.getSeconds()),
+      SSS: pad(date.getMilliseconds(), 3),
+      Z: formatOffset(date.getTimezoneOffset()),
+    };
+  return pattern.replace(TOKEN_PATTERN, token => parts[token]);
+}
+
+/**
+ * Format a span of milliseconds as [H:]mm:ss.SSS
+ */
+function formatElapsed(ms: number): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const clock = `${pad(Math.floor(total / 60000) % 60)}:${pad(Math.floor(total / 1000) % 60)}.${pad(total % 1000, 3)}`;
+  return hours > 0 ? `${hours}:${clock}` : clock;
+}
+
+/**
+ * Format the time since the previous line as +Nms or +N.NNNs
+ */
+function formatDelta(ms: number): string {
+  const delta = Math.max(0, Math.round(ms));
+  return delta < 1000 ? `+${delta}ms` : `+${(delta / 1000).toFixed(3)}s`;
+}
+
+/**
+ * Create a function that formats record timestamps. `true` and 'iso' print
+ * ISO strings (UTC unless utc is false), 'time' and patterns use local time
+ * unless utc is true. 'relative' keeps the time of the previous call in state.
+ */
+function createTimestampFormatter(
+  format: true | string,
+  utc?: boolean,
+  state: RelativeState = { previous: null }
+): TimestampFormatter {
+  const preset = format === true ? 'iso' : format;
+  validateTimestamp(preset);
+
+  switch (preset) {
+    case 'iso':
+      return utc === false
+        ? date => formatPattern('YYYY-MM-DDTHH:mm:ss.SSSZ', date, false)
+        : date => date.toISOString();
+    case 'time':
+      return date => formatPattern('HH:mm:ss.SSS', date, utc ?? false);
+    case 'epoch':
+      return date => String(date.getTime());
+    case 'elapsed':
+      return date => formatElapsed(date.getTime() - processStart);
+    case 'relative':
+      return date => {
+        const delta = state.previous === null ? 0 : date.getTime() - state.previous;
+        state.previous = date.getTime();
+        return formatDelta(delta);
+      };
+    default:
+      return date => formatPattern(preset, date, utc ?? false);
+  }
+}
+
+export { createTimestampFormatter, validateTimestamp };
@@ -4,25 +4,46 @@
  */
 
 import assert from 'assert';
-import log, { create, LogLevel } from '../src/index';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { spawn, spawnSync } from 'child_process';
+import http from 'http';
+import net, { AddressInfo } from 'net';
+import dgram from 'dgram';
+import zlib from 'zlib';
+import { parseArgs, createViewer, followFile } from '../src/cli';
+import log, { create, consoleTransport, fileTransport, enable, disable, isEnabled, intercept, loadConfig, memoryTransport, createTestLogger, withContext, runWithContext, getContext, detectRuntime, httpLogger, httpTransport, syslogTransport, LogLevel, LogRecord, Transport } from '../src/index';
 
 // Test counters
 let passed = 0;
 let failed = 0;
 
+// Registered tests, run in order once all are defined
+const tests: Array<{ name: string; fn: () => void | Promise<void> }> = [];
+
 /**
- * Simple test runner
+ * Simple test runner (tests may return a promise)
  */
-function test(name: string, fn: () => void): void {
-  try {
-    fn();
-    passed++;
-    console.log(`✅ ${name}`);
-  } catch (error) {
-    failed++;
-    console.log(`❌ ${name}`);
-    if (error instanceof Error) {
-      console.log(`   Error: ${error.message}`);
+function test(name: string, fn: () => void | Promise<void>): void {
+  tests.push({ name, fn });
+}
+
+/**
+ * Run all registered tests sequentially
+ */
+async function runTests(): Promise<void> {
+  for (const { name, fn } of tests) {
+    try {
+      await fn();
+      passed++;
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`❌ ${name}`);
+      if (error instanceof Error) {
+        console.log(`   Error: ${error.message}`);
+      }
     }
   }
 }
@@ -38,8 +59,11 @@ test('Default logger has all methods', () => {
   assert.strictEqual(typeof log.error, 'function');
   assert.strictEqual(typeof log.success, 'function');
   assert.strictEqual(typeof log.create, 'function');
+  assert.strictEqual(typeof log.child, 'function');
   assert.strictEqual(typeof log.setLevel, 'function');
   assert.strictEqual(typeof log.getLevel, 'function');
+  assert.strictEqual(typeof log.flush, 'function');
+  assert.strictEqual(typeof log.close, 'function');
 });
 
 // Test 2: create() returns logger instance
@@ -247,7 +271,7 @@ test('BUG-004: Error objects are properly serialized', () => {
 
   assert.strictEqual(outputs.length, 1);
   assert.ok(outputs[0].includes('Test error message'), 'Should include error message');
-  assert.ok(outputs[0].includes('"name"'), 'Should include error name');
+  assert.ok(outputs[0].includes('Error: Test error message'), 'Should include error name');
 });
 
 // Test 15: BUG-004 - Error custom properties are included
@@ -358,13 +382,2104 @@ test('BigInt values are properly serialized', () => {
   assert.ok(outputs[0].includes('123n'), 'Should show BigInt with n suffix');
 });
 
-// Summary
-console.log('\n' + '='.repeat(50));
-console.log(`\n📊 Results: ${passed} passed, ${failed} failed\n`);
-
-if (failed > 0) {
-  process.exit(1);
-} else {
-  console.log('🎉 All tests passed!\n');
-  process.exit(0);
+// ============================================================
+// TRANSPORTS
+// ============================================================
+
+// Test 21: Custom transport receives structured records
+test('Custom transport receives structured records', () => {
+  const records: LogRecord[] = [];
+  const memory: Transport = { write: (record) => records.push(record) };
+
+  const testLog = create({ prefix: '[App]', icons: false, transports: [memory] });
+  testLog.warn('disk usage', 91);
+
+  assert.strictEqual(records.length, 1);
+  assert.strictEqual(records[0].level, 'warn');
+  assert.strictEqual(records[0].prefix, '[App]');
+  assert.deepStrictEqual(records[0].args, ['disk usage', 91]);
+  assert.strictEqual(records[0].message, 'disk usage 91');
+  assert.ok(records[0].timestamp instanceof Date);
+  assert.ok(records[0].output.includes('[WARN]'), 'Should include formatted line');
+});
+
+// Test 22: Every transport receives the same record
+test('Every transport receives the same record', () => {
+  const first: LogRecord[] = [];
+  const second: LogRecord[] = [];
+
+  const testLog = create({
+    level: 'info',
+    transports: [
+      { write: (record) => first.push(record) },
+      { write: (record) => second.push(record) },
+    ],
+  });
+  testLog.debug('filtered');
+  testLog.info('delivered');
+
+  assert.strictEqual(first.length, 1);
+  assert.strictEqual(second.length, 1);
+  assert.strictEqual(first[0], second[0]);
+});
+
+// Test 23: Child logger inherits transports
+test('Child logger inherits transports', () => {
+  const records: LogRecord[] = [];
+  const parent = create({ transports: [{ write: (record) => records.push(record) }] });
+  parent.create({ prefix: '[Child]' }).info('from child');
+
+  assert.strictEqual(records.length, 1);
+  assert.strictEqual(records[0].prefix, '[Child]');
+});
+
+// Test 24: consoleTransport routes levels to console methods
+test('consoleTransport routes levels to console methods', () => {
+  const calls: string[] = [];
+  const originalLog = console.log;
+  const originalWarn = console.warn;
+  const originalError = console.error;
+  console.log = () => { calls.push('log'); };
+  console.warn = () => { calls.push('warn'); };
+  console.error = () => { calls.push('error'); };
+
+  const testLog = create({ transports: [consoleTransport()] });
+  testLog.info('a');
+  testLog.warn('b');
+  testLog.error('c');
+  testLog.success('d');
+
+  console.log = originalLog;
+  console.warn = originalWarn;
+  console.error = originalError;
+
+  assert.deepStrictEqual(calls, ['log', 'warn', 'error', 'log']);
+});
+
+// ============================================================
+// JSON FORMAT
+// ============================================================
+
+// Test 25: JSON format emits one parseable object per record
+test('JSON format emits one parseable object per record', () => {
+  const records: LogRecord[] = [];
+  const testLog = create({
+    format: 'json',
+    prefix: '[API]',
+    transports: [{ write: (record) => records.push(record) }],
+  });
+  testLog.warn('slow request', { route: '/users', ms: 812 });
+
+  assert.strictEqual(records.length, 1);
+  assert.ok(!records[0].output.includes('\n'), 'Should be a single line');
+  assert.ok(!records[0].output.includes('\x1b['), 'Should not contain ANSI codes');
+
+  const entry = JSON.parse(records[0].output);
+  assert.strictEqual(entry.level, 'warn');
+  assert.strictEqual(entry.priority, 2);
+  assert.strictEqual(entry.prefix, '[API]');
+  assert.strictEqual(entry.msg, 'slow request');
+  assert.strictEqual(entry.route, '/users');
+  assert.strictEqual(entry.ms, 812);
+  assert.strictEqual(entry.time, records[0].timestamp.toISOString());
+});
+
+// Test 26: JSON format keeps built-in fields and survives circular objects
+test('JSON format keeps built-in fields and survives circular objects', () => {
+  const records: LogRecord[] = [];
+  const testLog = create({ format: 'json', transports: [{ write: (record) => records.push(record) }] });
+
+  const obj: Record<string, unknown> = { level: 'spoofed', count: 10n };
+  obj.self = obj;
+  testLog.info(obj);
+
+  const entry = JSON.parse(records[0].output);
+  assert.strictEqual(entry.level, 'info');
+  assert.strictEqual(entry.count, '10n');
+  assert.strictEqual(entry.self.self, '[Circular]');
+  assert.strictEqual(entry.msg, '');
+});
+
+// Test 27: Child logger inherits JSON format
+test('Child logger inherits JSON format', () => {
+  const records: LogRecord[] = [];
+  const parent = create({ format: 'json', transports: [{ write: (record) => records.push(record) }] });
+  parent.create({ prefix: '[Child]' }).info('hello');
+
+  const entry = JSON.parse(records[0].output);
+  assert.strictEqual(entry.prefix, '[Child]');
+  assert.strictEqual(entry.msg, 'hello');
+});
+
+// ============================================================
+// CHILD LOGGERS
+// ============================================================
+
+// Test 28: child() adds bound fields as key=value pairs
+test('child() adds bound fields as key=value pairs', () => {
+  const records: LogRecord[] = [];
+  const parent = create({ icons: false, transports: [{ write: (record) => records.push(record) }] });
+  const child = parent.child({ requestId: 'abc123', user: 'Jane Doe', attempt: 2 });
+  child.info('handled');
+
+  assert.deepStrictEqual(records[0].bindings, { requestId: 'abc123', user: 'Jane Doe', attempt: 2 });
+  assert.ok(records[0].output.includes('handled requestId=abc123'), 'Should append bindings');
+  assert.ok(records[0].output.includes('user="Jane Doe"'), 'Should quote values with spaces');
+  assert.ok(records[0].output.includes('attempt=2'));
+});
+
+// Test 29: Bindings merge through nested children
+test('Bindings merge through nested children', () => {
+  const records: LogRecord[] = [];
+  const root = create({ format: 'json', transports: [{ write: (record) => records.push(record) }] });
+  const request = root.child({ requestId: 'r1', stage: 'outer' });
+  const db = request.child({ stage: 'db' });
+  db.info('query', { rows: 3 });
+  root.info('no bindings');
+
+  const entry = JSON.parse(records[0].output);
+  assert.strictEqual(entry.requestId, 'r1');
+  assert.strictEqual(entry.stage, 'db');
+  assert.strictEqual(entry.rows, 3);
+  assert.strictEqual(JSON.parse(records[1].output).requestId, undefined);
+});
+
+// Test 30: child() inherits parent options
+test('child() inherits parent options', () => {
+  const parent = create({ level: 'warn', prefix: '[API]' });
+  const child = parent.child({ requestId: 'r1' });
+  assert.strictEqual(child.getLevel(), 'warn');
+  assert.notStrictEqual(child, parent);
+});
+
+// ============================================================
+// COLOR DETECTION
+// ============================================================
+
+/**
+ * Run a function with temporary environment variables and TTY flags
+ */
+function withEnv(
+  env: Record<string, string | undefined>,
+  tty: { stdout?: boolean; stderr?: boolean },
+  fn: () => void
+): void {
+  const savedEnv: Record<string, string | undefined> = {};
+  for (const key of Object.keys(env)) {
+    savedEnv[key] = process.env[key];
+    if (env[key] === undefined) {
+      delete process.env[key];
+    } else {
+      process.env[key] = env[key];
+    }
+  }
+  const savedStdout = process.stdout.isTTY;
+  const savedStderr = process.stderr.isTTY;
+  process.stdout.isTTY = tty.stdout as true;
+  process.stderr.isTTY = tty.stderr as true;
+
+  try {
+    fn();
+  } finally {
+    process.stdout.isTTY = savedStdout;
+    process.stderr.isTTY = savedStderr;
+    for (const key of Object.keys(savedEnv)) {
+      if (savedEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = savedEnv[key];
+      }
+    }
+  }
+}
+
+const NO_COLOR_ENV = { NO_COLOR: undefined, FORCE_COLOR: undefined, TERM: 'xterm-256color' };
+
+// Test 31: colors option forces colors on or off
+test('colors option forces colors on or off', () => {
+  const records: LogRecord[] = [];
+  const transports = [{ write: (record: LogRecord) => records.push(record) }];
+  create({ colors: true, transports }).info('colored');
+  create({ colors: false, transports }).info('plain');
+
+  assert.ok(records[0].output.includes('\x1b[36m[INFO]\x1b[0m'), 'Should include ANSI codes');
+  assert.ok(!records[1].output.includes('\x1b['), 'Should not include ANSI codes');
+});
+
+// Test 32: Auto colors follow the TTY state of each stream
+test('Auto colors follow the TTY state of each stream', () => {
+  const records: LogRecord[] = [];
+  withEnv(NO_COLOR_ENV, { stdout: true, stderr: false }, () => {
+    const testLog = create({ transports: [{ write: (record) => records.push(record) }] });
+    testLog.info('stdout');
+    testLog.error('stderr');
+  });
+
+  assert.ok(records[0].output.includes('\x1b['), 'stdout is a TTY');
+  assert.ok(!records[1].output.includes('\x1b['), 'stderr is not a TTY');
+});
+
+// Test 33: NO_COLOR, FORCE_COLOR and TERM=dumb are respected
+test('NO_COLOR, FORCE_COLOR and TERM=dumb are respected', () => {
+  const outputs: string[] = [];
+  const transports = [{ write: (record: LogRecord) => outputs.push(record.output) }];
+
+  withEnv({ ...NO_COLOR_ENV, NO_COLOR: '1' }, { stdout: true }, () => {
+    create({ transports }).info('no color');
+  });
+  withEnv({ ...NO_COLOR_ENV, TERM: 'dumb' }, { stdout: true }, () => {
+    create({ transports }).info('dumb');
+  });
+  withEnv({ ...NO_COLOR_ENV, FORCE_COLOR: '1' }, { stdout: false }, () => {
+    create({ transports }).info('forced');
+  });
+  withEnv({ ...NO_COLOR_ENV, FORCE_COLOR: '0' }, { stdout: true }, () => {
+    create({ transports }).info('forced off');
+  });
+
+  assert.ok(!outputs[0].includes('\x1b['), 'NO_COLOR disables colors');
+  assert.ok(!outputs[1].includes('\x1b['), 'TERM=dumb disables colors');
+  assert.ok(outputs[2].includes('\x1b['), 'FORCE_COLOR enables colors');
+  assert.ok(!outputs[3].includes('\x1b['), 'FORCE_COLOR=0 disables colors');
+});
+
+// ============================================================
+// CUSTOM LEVELS
+// ============================================================
+
+const CUSTOM_LEVELS = {
+  trace: { priority: -1, color: 'magenta', icon: '🔬' },
+  fatal: { priority: 4, color: 'red', icon: '💀', stream: 'stderr' },
+} as const;
+
+// Test 34: Custom levels get their own methods and filtering
+test('Custom levels get their own methods and filtering', () => {
+  const records: LogRecord[] = [];
+  const testLog = create({
+    levels: CUSTOM_LEVELS,
+    level: 'trace',
+    colors: true,
+    transports: [{ write: (record) => records.push(record) }],
+  });
+  testLog.trace('very verbose');
+  testLog.fatal('going down');
+
+  testLog.setLevel('error');
+  assert.strictEqual(testLog.getLevel(), 'error');
+  testLog.trace('filtered');
+  testLog.debug('filtered');
+  testLog.fatal('still shown');
+
+  assert.strictEqual(records.length, 3);
+  assert.strictEqual(records[0].level, 'trace');
+  assert.strictEqual(records[0].priority, -1);
+  assert.strictEqual(records[0].stream, 'stdout');
+  assert.ok(records[0].output.startsWith('🔬 \x1b[35m[TRACE]'), 'Should use custom icon and color');
+  assert.strictEqual(records[1].stream, 'stderr');
+  assert.strictEqual(records[2].message, 'still shown');
+});
+
+// Test 35: Custom levels are inherited and extended by child loggers
+test('Custom levels are inherited and extended by child loggers', () => {
+  const records: LogRecord[] = [];
+  const parent = create({ levels: CUSTOM_LEVELS, transports: [{ write: (record) => records.push(record) }] });
+  const child = parent.create({ levels: { http: { priority: 1.5 } }, level: 'http' });
+  child.info('filtered');
+  child.http('GET /');
+  child.fatal('inherited');
+  parent.child({ requestId: 'r1' }).trace('from child()');
+
+  // @ts-expect-error - http is only defined on the child
+  assert.strictEqual(parent.http, undefined);
+  assert.deepStrictEqual(records.map(r => r.level), ['http', 'fatal']);
+});
+
+// Test 36: consoleTransport routes custom levels by stream
+test('consoleTransport routes custom levels by stream', () => {
+  const calls: string[] = [];
+  const originalLog = console.log;
+  const originalError = console.error;
+  console.log = () => { calls.push('log'); };
+  console.error = () => { calls.push('error'); };
+
+  const testLog = create({ levels: CUSTOM_LEVELS, level: 'trace' });
+  testLog.trace('a');
+  testLog.fatal('b');
+
+  console.log = originalLog;
+  console.error = originalError;
+
+  assert.deepStrictEqual(calls, ['log', 'error']);
+});
+
+// Test 37: Invalid custom level definitions throw TypeError
+test('Invalid custom level definitions throw TypeError', () => {
+  assert.throws(() => create({ levels: { create: { priority: 1 } } }), /reserved/);
+  assert.throws(() => create({ levels: { trace: { priority: NaN } } }), TypeError);
+  assert.throws(() => create({ levels: { trace: { priority: 0, stream: 'stdin' as 'stdout' } } }), /Invalid stream/);
+  assert.throws(() => create({ level: 'verbose' as LogLevel }), /Invalid log level/);
+});
+
+// ============================================================
+// NAMESPACES
+// ============================================================
+
+// Test 38: Namespace patterns support wildcards and exclusions
+test('Namespace patterns support wildcards and exclusions', () => {
+  try {
+    enable('app:*,-app:db');
+    assert.strictEqual(isEnabled('app:http'), true);
+    assert.strictEqual(isEnabled('app:db'), false);
+    assert.strictEqual(isEnabled('worker'), false);
+
+    enable('*');
+    assert.strictEqual(isEnabled('worker'), true);
+  } finally {
+    enable('*');
+  }
+});
+
+// Test 39: Disabled namespaces are filtered, unnamed loggers are not
+test('Disabled namespaces are filtered, unnamed loggers are not', () => {
+  const records: LogRecord[] = [];
+  const transports = [{ write: (record: LogRecord) => records.push(record) }];
+  const http = create({ name: 'app:http', transports });
+  const db = create({ name: 'app:db', transports });
+  const plain = create({ transports });
+
+  try {
+    enable('app:*,-app:db');
+    http.info('http');
+    db.info('db');
+    plain.info('plain');
+
+    // Existing loggers pick up pattern changes
+    enable('app:db');
+    http.info('http again');
+    db.info('db again');
+  } finally {
+    enable('*');
+  }
+
+  assert.deepStrictEqual(records.map(r => r.message), ['http', 'plain', 'db again']);
+  assert.strictEqual(records[0].name, 'app:http');
+});
+
+// Test 40: Namespace level overrides take precedence over the logger level
+test('Namespace level overrides take precedence over the logger level', () => {
+  const records: LogRecord[] = [];
+  const transports = [{ write: (record: LogRecord) => records.push(record) }];
+  const auth = create({ name: 'api:auth', level: 'debug', transports });
+  const users = create({ name: 'api:users', level: 'error', transports });
+
+  try {
+    enable('api:*=warn,api:users=debug');
+    auth.info('filtered');
+    auth.warn('auth warn');
+    users.debug('users debug');
+  } finally {
+    enable('*');
+  }
+
+  assert.deepStrictEqual(records.map(r => r.message), ['auth warn', 'users debug']);
+  assert.strictEqual(auth.getLevel(), 'debug');
+});
+
+// Test 41: disable() turns off named loggers and returns previous patterns
+test('disable() turns off named loggers and returns previous patterns', () => {
+  const records: LogRecord[] = [];
+  const testLog = create({ name: 'app', format: 'json', transports: [{ write: (record) => records.push(record) }] });
+
+  try {
+    enable('app');
+    assert.strictEqual(disable(), 'app');
+    testLog.error('filtered');
+    enable('app');
+    testLog.info('shown');
+  } finally {
+    enable('*');
+  }
+
+  assert.strictEqual(records.length, 1);
+  assert.strictEqual(JSON.parse(records[0].output).name, 'app');
+});
+
+// ============================================================
+// FILE TRANSPORT
+// ============================================================
+
+/**
+ * Create a fresh temporary directory for file tests
+ */
+function tempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'minilog-zero-'));
+}
+
+// Test 42: fileTransport appends plain lines without ANSI codes
+test('fileTransport appends plain lines without ANSI codes', async () => {
+  const dir = tempDir();
+  const file = path.join(dir, 'logs', 'app.log');
+  const transport = fileTransport({ path: file });
+  const testLog = create({ colors: true, icons: false, transports: [transport] });
+
+  testLog.info('first');
+  testLog.error('second');
+  await transport.close();
+
+  const lines = fs.readFileSync(file, 'utf8').split('\n');
+  assert.deepStrictEqual(lines, ['[INFO] first', '[ERROR] second', '']);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// Test 43: fileTransport rotates by size and keeps maxFiles
+test('fileTransport rotates by size and keeps maxFiles', async () => {
+  const dir = tempDir();
+  const file = path.join(dir, 'app.log');
+  const transport = fileTransport({ path: file, maxSize: 30, maxFiles: 2 });
+  const testLog = create({ format: 'json', transports: [transport] });
+
+  for (let i = 0; i < 4; i++) {
+    testLog.info(`line ${i}`);
+    await transport.flush();
+  }
+  await transport.close();
+
+  const msgs = (name: string) => fs.readFileSync(path.join(dir, name), 'utf8')
+    .trim().split('\n').map(line => JSON.parse(line).msg);
+  assert.deepStrictEqual(fs.readdirSync(dir).sort(), ['app.log', 'app.log.1', 'app.log.2']);
+  assert.deepStrictEqual(msgs('app.log'), ['line 3']);
+  assert.deepStrictEqual(msgs('app.log.1'), ['line 2']);
+  assert.deepStrictEqual(msgs('app.log.2'), ['line 1']);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// Test 44: fileTransport rotates at time boundaries and gzips rotated files
+test('fileTransport rotates at time boundaries and gzips rotated files', async () => {
+  const dir = tempDir();
+  const file = path.join(dir, 'app.log');
+  const transport = fileTransport({ path: file, interval: 'hourly', compress: true });
+  const write = (output: string, timestamp: Date) => transport.write({
+    level: 'info', priority: 1, stream: 'stdout', timestamp, prefix: '', name: '',
+    args: [], message: output, bindings: {}, fields: {}, output,
+  });
+
+  write('before', new Date(2024, 0, 15, 10, 59));
+  write('after', new Date(2024, 0, 15, 11, 0));
+  await transport.close();
+
+  assert.deepStrictEqual(fs.readdirSync(dir).sort(), ['app.log', 'app.log.1.gz']);
+  assert.strictEqual(fs.readFileSync(file, 'utf8'), 'after\n');
+  assert.strictEqual(zlib.gunzipSync(fs.readFileSync(`${file}.1.gz`)).toString(), 'before\n');
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// ============================================================
+// ASYNC MODE
+// ============================================================
+
+/**
+ * Create a transport that collects messages and counts flush/close calls
+ */
+function spyTransport(): Transport & { messages: string[]; flushes: number; closes: number } {
+  const spy = {
+    messages: [] as string[],
+    flushes: 0,
+    closes: 0,
+    write: (record: LogRecord) => { spy.messages.push(record.message); },
+    flush: async () => { spy.flushes++; },
+    close: async () => { spy.closes++; },
+  };
+  return spy;
 }
+
+// Test 45: Async mode queues records until the next tick or flush()
+test('Async mode queues records until the next tick or flush()', async () => {
+  const spy = spyTransport();
+  const testLog = create({ async: true, transports: [spy] });
+
+  testLog.info('one');
+  testLog.info('two');
+  assert.deepStrictEqual(spy.messages, [], 'Should not write synchronously');
+
+  await testLog.flush();
+  assert.deepStrictEqual(spy.messages, ['one', 'two']);
+  assert.strictEqual(spy.flushes, 1, 'Should flush the transports');
+
+  testLog.info('three');
+  await new Promise(resolve => setTimeout(resolve, 5));
+  assert.deepStrictEqual(spy.messages, ['one', 'two', 'three']);
+  await testLog.close();
+});
+
+// Test 46: Async mode writes in batches of batchSize
+test('Async mode writes in batches of batchSize', async () => {
+  const spy = spyTransport();
+  const testLog = create({ async: { batchSize: 2 }, transports: [spy] });
+
+  for (let i = 0; i < 5; i++) {
+    testLog.info(`line ${i}`);
+  }
+  await new Promise(resolve => setTimeout(resolve, 0));
+  assert.strictEqual(spy.messages.length, 2);
+
+  await testLog.close();
+  assert.strictEqual(spy.messages.length, 5);
+});
+
+// Test 47: Overflow policies drop or block when the queue is full
+test('Overflow policies drop or block when the queue is full', async () => {
+  const oldest = spyTransport();
+  const newest = spyTransport();
+  const blocking = spyTransport();
+  const drops: number[] = [];
+
+  const dropOldest = create({
+    async: { highWaterMark: 2, overflow: 'drop-oldest', onDrop: (count) => drops.push(count) },
+    transports: [oldest],
+  });
+  const dropNewest = create({ async: { highWaterMark: 2, overflow: 'drop-newest' }, transports: [newest] });
+  const block = create({ async: { highWaterMark: 2, overflow: 'block' }, transports: [blocking] });
+
+  for (const testLog of [dropOldest, dropNewest, block]) {
+    testLog.info('a');
+    testLog.info('b');
+    testLog.info('c');
+  }
+  assert.deepStrictEqual(blocking.messages, ['a', 'b'], 'Block should write the backlog synchronously');
+
+  await Promise.all([dropOldest.close(), dropNewest.close(), block.close()]);
+  assert.deepStrictEqual(oldest.messages, ['b', 'c']);
+  assert.deepStrictEqual(newest.messages, ['a', 'b']);
+  assert.deepStrictEqual(blocking.messages, ['a', 'b', 'c']);
+  assert.deepStrictEqual(drops, [1]);
+  assert.throws(() => create({ async: { overflow: 'drop-all' as 'block' } }), /Invalid overflow policy/);
+});
+
+// Test 48: Child loggers share the async queue and close() closes transports
+test('Child loggers share the async queue and close() closes transports', async () => {
+  const spy = spyTransport();
+  const parent = create({ async: true, transports: [spy] });
+  const child = parent.child({ requestId: 'r1' });
+
+  parent.info('parent');
+  child.info('child');
+  parent.info('parent again');
+  await child.close();
+
+  assert.deepStrictEqual(spy.messages, ['parent', 'child', 'parent again']);
+  assert.strictEqual(spy.closes, 1);
+
+  parent.info('after close');
+  await parent.flush();
+  assert.strictEqual(spy.messages.length, 3, 'Closed queue should ignore records');
+});
+
+// Test 49: flush() and close() reach transports in sync mode
+test('flush() and close() reach transports in sync mode', async () => {
+  const spy = spyTransport();
+  const testLog = create({ transports: [spy, consoleTransport()] });
+  await testLog.flush();
+  await testLog.close();
+  assert.strictEqual(spy.flushes, 1);
+  assert.strictEqual(spy.closes, 1);
+});
+
+// ============================================================
+// REDACTION
+// ============================================================
+
+// Test 50: Redacts key paths with wildcards in pretty and JSON output
+test('Redacts key paths with wildcards in pretty and JSON output', () => {
+  const records: LogRecord[] = [];
+  const transports = [{ write: (record: LogRecord) => records.push(record) }];
+  const redact = ['req.headers.authorization', '*.password', 'token'];
+  const req = { headers: { authorization: 'Bearer abc', host: 'example.com' } };
+
+  create({ redact, icons: false, transports }).info('request', { req, user: { password: 'hunter2' } });
+  create({ redact, format: 'json', transports }).info({ req, token: 't0k3n', user: { name: 'ann', password: 'x' } });
+
+  assert.ok(!records[0].output.includes('Bearer abc'), 'Should hide authorization');
+  assert.ok(!records[0].output.includes('hunter2'), 'Should hide password');
+  assert.ok(records[0].output.includes('example.com'), 'Should keep other fields');
+
+  const entry = JSON.parse(records[1].output);
+  assert.strictEqual(entry.req.headers.authorization, '[REDACTED]');
+  assert.strictEqual(entry.token, '[REDACTED]');
+  assert.strictEqual(entry.user.password, '[REDACTED]');
+  assert.strictEqual(entry.user.name, 'ann');
+  assert.strictEqual(req.headers.authorization, 'Bearer abc', 'Should not modify the original');
+});
+
+// Test 51: Redacts value patterns, Maps, Errors and bindings
+test('Redacts value patterns, Maps, Errors and bindings', () => {
+  const records: LogRecord[] = [];
+  const testLog = create({
+    redact: { paths: ['**.secret', 'apiKey'], values: [/sk_live_\w+/], censor: '***' },
+    icons: false,
+    bindings: { apiKey: 'abc' },
+    transports: [{ write: (record) => records.push(record) }],
+  });
+
+  const err = new Error('charge failed for sk_live_123') as Error & { secret: string };
+  err.secret = 'shh';
+  testLog.error(err);
+  testLog.info(new Map([['config', { db: { secret: 'pw' } }]]));
+  testLog.info('key', 'sk_live_456');
+
+  const output = records.map(r => r.output).join('\n');
+  assert.ok(!output.includes('sk_live_'), 'Should hide matching values, including in stacks');
+  assert.ok(!output.includes('shh'), 'Should hide Error custom properties');
+  assert.ok(!output.includes('"pw"'), 'Should hide nested Map values');
+  assert.ok(records[0].output.includes('apiKey=***'), 'Should redact bindings');
+  assert.ok(records[0].args[0] instanceof Error, 'Should keep Error type');
+  assert.strictEqual(err.secret, 'shh');
+});
+
+// Test 52: Redaction keeps circular references and is inherited by children
+test('Redaction keeps circular references and is inherited by children', () => {
+  const records: LogRecord[] = [];
+  const parent = create({ redact: ['password'], icons: false, transports: [{ write: (record) => records.push(record) }] });
+  const obj: Record<string, unknown> = { password: 'pw' };
+  obj.self = obj;
+  parent.child({ requestId: 'r1' }).info(obj);
+
+  assert.ok(records[0].output.includes('[Circular]'));
+  assert.ok(!records[0].output.includes('"pw"'));
+});
+
+// ============================================================
+// FORMAT SPECIFIERS
+// ============================================================
+
+// Test 53: printf-style specifiers match util.format
+test('printf-style specifiers match util.format', () => {
+  const records: LogRecord[] = [];
+  const testLog = create({ transports: [{ write: (record) => records.push(record) }] });
+  const cases: unknown[][] = [
+    ['user %s took %dms', 'ann', 42],
+    ['%i items at %f each', '12.7', '1.5'],
+    ['%d %i', 10n, 7n],
+    ['json %j', { a: [1, 2] }],
+    ['100%% done %s'],
+    ['100%% of %s', 'tests'],
+    ['%s and %s', 'one'],
+    ['%cstyled', 'color: red'],
+    ['%d', {}],
+  ];
+  for (const args of cases) {
+    testLog.info(...args);
+  }
+
+  assert.deepStrictEqual(records.map(r => r.message), [
+    'user ann took 42ms',
+    '12 items at 1.5 each',
+    '10n 7n',
+    'json {"a":[1,2]}',
+    '100%% done %s',
+    '100% of tests',
+    'one and %s',
+    'styled',
+    'NaN',
+  ]);
+});
+
+// Test 54: Surplus arguments are appended after the format string
+test('Surplus arguments are appended after the format string', () => {
+  const records: LogRecord[] = [];
+  const testLog = create({ transports: [{ write: (record) => records.push(record) }] });
+  testLog.info('%s:', 'result', 42, { ok: true });
+  testLog.info({ a: 1 }, '%s', 'not formatted');
+
+  assert.ok(records[0].message.startsWith('result: 42 {'));
+  assert.ok(records[0].message.includes('"ok": true'));
+  assert.ok(records[1].message.endsWith('%s not formatted'));
+});
+
+// Test 55: JSON format keeps specifier arguments in msg and merges the rest
+test('JSON format keeps specifier arguments in msg and merges the rest', () => {
+  const records: LogRecord[] = [];
+  const testLog = create({ format: 'json', transports: [{ write: (record) => records.push(record) }] });
+  testLog.info('payload %j for %s', { id: 1 }, 'ann', { requestId: 'r1' });
+
+  const entry = JSON.parse(records[0].output);
+  assert.strictEqual(entry.msg, 'payload {"id":1} for ann');
+  assert.strictEqual(entry.requestId, 'r1');
+  assert.strictEqual(entry.id, undefined);
+});
+
+// ============================================================
+// OBJECT INSPECTION
+// ============================================================
+
+// Test 56: Inspector shows class names, functions, symbols and getters
+test('Inspector shows class names, functions, symbols and getters', () => {
+  const records: LogRecord[] = [];
+  const testLog = create({ inspect: { compact: true }, transports: [{ write: (record) => records.push(record) }] });
+
+  class User {
+    name = 'ann';
+  }
+  testLog.info({
+    user: new User(),
+    handler: function onRequest() {},
+    kind: Symbol('kind'),
+    get computed() { return 1; },
+    count: 5n,
+  });
+
+  assert.strictEqual(
+    records[0].message,
+    '{ "user": User { "name": "ann" }, "handler": [Function: onRequest], "kind": Symbol(kind), "computed": [Getter], "count": 5n }'
+  );
+});
+
+// Test 57: Inspector handles Buffers, typed arrays, Promises and WeakMaps
+test('Inspector handles Buffers, typed arrays, Promises and WeakMaps', () => {
+  const records: LogRecord[] = [];
+  const testLog = create({ inspect: { compact: true }, transports: [{ write: (record) => records.push(record) }] });
+  testLog.info(Buffer.from('hi'), new Uint16Array([1, 2]), Promise.resolve(1), new WeakMap(), new Map([[1, 'one']]));
+
+  assert.strictEqual(
+    records[0].message,
+    '<Buffer 68 69> Uint16Array(2) [ 1, 2 ] Promise { <state unknown> } WeakMap { <items unknown> } Map(1) { 1 => "one" }'
+  );
+});
+
+// Test 58: Inspector limits depth, array length and string length
+test('Inspector limits depth, array length and string length', () => {
+  const records: LogRecord[] = [];
+  const testLog = create({
+    inspect: { depth: 1, maxArrayLength: 2, maxStringLength: 4, compact: true },
+    transports: [{ write: (record) => records.push(record) }],
+  });
+  testLog.info({ deep: { deeper: { deepest: 1 } }, list: [1, 2, 3, 4], text: 'abcdefgh' });
+
+  assert.strictEqual(
+    records[0].message,
+    '{ "deep": { "deeper": [Object] }, "list": [ 1, 2, ... 2 more items ], "text": "abcd"... 4 more characters }'
+  );
+});
+
+// Test 59: Multi-line output is indented and inherited by children
+test('Multi-line output is indented and inherited by children', () => {
+  const records: LogRecord[] = [];
+  const parent = create({ inspect: { depth: 0 }, transports: [{ write: (record) => records.push(record) }] });
+  parent.child({}).info({ a: [1], b: { c: 1 } });
+  parent.info([]);
+
+  assert.strictEqual(records[0].message, '{\n  "a": [Array],\n  "b": [Object]\n}');
+  assert.strictEqual(records[1].message, '[]');
+});
+
+// ============================================================
+// ERROR RENDERING
+// ============================================================
+
+// Test 60: Errors render a header with indented stack frames
+test('Errors render a header with indented stack frames', () => {
+  const records: LogRecord[] = [];
+  const testLog = create({ icons: false, transports: [{ write: (record) => records.push(record) }] });
+  const err = new TypeError('bad input');
+  err.stack = [
+    'TypeError: bad input',
+    '    at parse (/app/src/parse.js:10:5)',
+    '    at Object.<anonymous> (/app/node_modules/lib/index.js:1:1)',
+    '    at node:internal/main:20:3',
+  ].join('\n');
+  testLog.error('failed:', err);
+
+  assert.strictEqual(records[0].message, [
+    'failed: TypeError: bad input',
+    '    at parse (/app/src/parse.js:10:5)',
+    '    at Object.<anonymous> (/app/node_modules/lib/index.js:1:1)',
+    '    at node:internal/main:20:3',
+  ].join('\n'));
+});
+
+// Test 61: Library frames can be dimmed or hidden
+test('Library frames can be dimmed or hidden', () => {
+  const records: LogRecord[] = [];
+  const err = new Error('boom');
+  err.stack = 'Error: boom\n    at run (/app/run.js:1:1)\n    at load (/app/node_modules/x/y.js:2:2)';
+
+  create({ colors: true, transports: [{ write: (record) => records.push(record) }] }).error(err);
+  create({ inspect: { libraryFrames: 'hide' }, transports: [{ write: (record) => records.push(record) }] }).error(err);
+
+  assert.ok(records[0].output.includes('\x1b[1m\x1b[31mError: boom\x1b[0m'), 'Should color the header');
+  assert.ok(records[0].output.includes('\x1b[2m\x1b[90mat load'), 'Should dim library frames');
+  assert.ok(!records[0].message.includes('\x1b['), 'record.message should stay plain');
+  assert.ok(!records[1].message.includes('node_modules'), 'Should hide library frames');
+  assert.ok(records[1].message.includes('at run'));
+});
+
+// Test 62: Cause chains and AggregateError errors are expanded
+test('Cause chains and AggregateError errors are expanded', () => {
+  const records: LogRecord[] = [];
+  const testLog = create({ icons: false, transports: [{ write: (record) => records.push(record) }] });
+
+  const root = new Error('disk full');
+  // Causes are assigned by hand, as Node 14 ignores the cause option
+  const outer = Object.assign(new Error('save failed'), { cause: Object.assign(new Error('write failed'), { cause: root }) });
+  // Shaped like an AggregateError, which Node 14 does not have
+  const aggregate = Object.assign(new Error('all failed'), { errors: [new Error('first'), new RangeError('second')] });
+  const circular = new Error('loop') as Error & { cause?: unknown };
+  circular.cause = circular;
+
+  testLog.error(outer);
+  testLog.error(aggregate);
+  testLog.error(circular);
+
+  const chain = records[0].message;
+  assert.ok(chain.includes('[cause]: Error: write failed'));
+  assert.ok(chain.includes('[cause]: Error: disk full'));
+  assert.ok(chain.indexOf('write failed') < chain.indexOf('disk full'));
+
+  assert.ok(records[1].message.startsWith('Error: all failed'));
+  assert.ok(records[1].message.includes('[errors]: ['));
+  assert.ok(records[1].message.includes('    Error: first'));
+  assert.ok(records[1].message.includes('    RangeError: second'));
+
+  assert.ok(records[2].message.includes('[cause]: [Circular]'));
+});
+
+// Test 63: JSON format emits a structured err with a parsed stack
+test('JSON format emits a structured err with a parsed stack', () => {
+  const records: LogRecord[] = [];
+  const testLog = create({ format: 'json', transports: [{ write: (record) => records.push(record) }] });
+  const err = Object.assign(new Error('query failed'), { cause: new Error('timeout') }) as Error & { code?: string };
+  err.code = 'ETIMEDOUT';
+  err.stack = 'Error: query failed\n    at run (/app/db.js:12:7)\n    at /app/index.js:3:1';
+  testLog.error(err);
+  testLog.error('while saving', Object.assign(new Error('many'), { errors: [new Error('a')] }));
+
+  const entry = JSON.parse(records[0].output);
+  assert.strictEqual(entry.msg, 'query failed');
+  assert.strictEqual(entry.err.name, 'Error');
+  assert.strictEqual(entry.err.code, 'ETIMEDOUT');
+  assert.deepStrictEqual(entry.err.stack, [
+    { fn: 'run', file: '/app/db.js', line: 12, column: 7 },
+    { fn: null, file: '/app/index.js', line: 3, column: 1 },
+  ]);
+  assert.strictEqual(entry.err.cause.message, 'timeout');
+
+  const aggregate = JSON.parse(records[1].output);
+  assert.strictEqual(aggregate.msg, 'while saving');
+  assert.strictEqual(aggregate.err.errors[0].message, 'a');
+});
+
+// ============================================================
+// TIMERS
+// ============================================================
+
+// Test 64: time() and timeEnd() log the label with a duration
+test('time() and timeEnd() log the label with a duration', async () => {
+  const records: LogRecord[] = [];
+  const testLog = create({ icons: false, transports: [{ write: (record) => records.push(record) }] });
+
+  testLog.time('query');
+  await new Promise(resolve => setTimeout(resolve, 5));
+  testLog.timeEnd('query', 'debug');
+  testLog.timeEnd('query');
+
+  assert.strictEqual(records[0].level, 'debug');
+  assert.strictEqual(records[0].message, 'query');
+  assert.ok(records[0].duration! >= 4, 'Should measure elapsed time');
+  assert.ok(/\[DEBUG\] query duration=\d+(\.\d)?ms$/.test(records[0].output), 'Should show a readable duration');
+  assert.strictEqual(records[1].level, 'warn', 'Unknown timers should warn');
+  assert.throws(() => testLog.timeEnd('query', 'loud' as LogLevel), /Invalid log level/);
+});
+
+// Test 65: startTimer().done() logs message, fields and duration
+test('startTimer().done() logs message, fields and duration', () => {
+  const records: LogRecord[] = [];
+  const testLog = create({ format: 'json', transports: [{ write: (record) => records.push(record) }] });
+
+  const timer = testLog.startTimer();
+  const duration = timer.done('request finished', { status: 200 });
+
+  const entry = JSON.parse(records[0].output);
+  assert.strictEqual(entry.msg, 'request finished');
+  assert.strictEqual(entry.status, 200);
+  assert.strictEqual(typeof entry.duration, 'number');
+  assert.strictEqual(entry.duration, Math.round(duration * 1000) / 1000);
+  assert.deepStrictEqual(records[0].fields, { status: 200 });
+});
+
+// Test 66: Durations are formatted for humans in pretty output
+test('Durations are formatted for humans in pretty output', () => {
+  const records: LogRecord[] = [];
+  const testLog = create({ icons: false, transports: [{ write: (record) => records.push(record) }] });
+  const originalHrtime = process.hrtime.bigint;
+  // The last four round up to the next unit
+  const durations = [0.25, 45.25, 1250, 125000, 0.9996, 999.96, 59999.9, 119700];
+
+  try {
+    for (const ms of durations) {
+      let calls = 0;
+      process.hrtime.bigint = () => BigInt(calls++ === 0 ? 0 : Math.round(ms * 1e6));
+      testLog.startTimer().done('step');
+    }
+  } finally {
+    process.hrtime.bigint = originalHrtime;
+  }
+
+  assert.deepStrictEqual(records.map(r => r.output.split('duration=')[1]), [
+    '250µs', '45.3ms', '1.25s', '2m 5s', '1ms', '1s', '1m 0s', '2m 0s',
+  ]);
+});
+
+// ============================================================
+// CONSOLE INTERCEPTION
+// ============================================================
+
+// Test 67: intercept() routes console methods to logger levels until restored
+test('intercept() routes console methods to logger levels until restored', () => {
+  const records: LogRecord[] = [];
+  const testLog = create({ level: 'debug', transports: [{ write: (record) => records.push(record) }] });
+  const originalLog = console.log;
+
+  const restore = intercept(testLog);
+  try {
+    console.log('plain');
+    console.info('info');
+    console.warn('careful');
+    console.error('broken');
+    console.debug('details');
+    assert.throws(() => intercept(testLog), /already intercepted/);
+  } finally {
+    restore();
+  }
+
+  assert.strictEqual(console.log, originalLog, 'Should restore the original methods');
+  assert.deepStrictEqual(records.map(r => r.level), ['info', 'info', 'warn', 'error', 'debug']);
+  assert.deepStrictEqual(records.map(r => r.message), ['plain', 'info', 'careful', 'broken', 'details']);
+});
+
+// Test 68: Intercepted output does not loop back through the logger
+test('Intercepted output does not loop back through the logger', () => {
+  const captured: string[] = [];
+  const originalLog = console.log;
+  console.log = (...args: unknown[]) => { captured.push(args.join(' ')); };
+
+  let restore: (() => void) | undefined;
+  try {
+    const echo: Transport = { write: (record) => console.log(`echo ${record.message}`) };
+    const testLog = create({ icons: false, colors: false, transports: [consoleTransport(), echo] });
+    restore = intercept(testLog);
+    console.log('hello');
+  } finally {
+    restore?.();
+    console.log = originalLog;
+  }
+
+  assert.strictEqual(captured.length, 2, 'Each line should be written once');
+  assert.ok(captured[0].endsWith('[INFO] hello'));
+  assert.strictEqual(captured[1], 'echo hello');
+});
+
+// Test 69: Uncaught errors are logged at error level when enabled
+test('Uncaught errors are logged at error level when enabled', () => {
+  const records: LogRecord[] = [];
+  const testLog = create({ transports: [{ write: (record) => records.push(record) }] });
+  const listeners = process.listenerCount('uncaughtException');
+
+  const restore = intercept(testLog, { errors: true, exit: false });
+  try {
+    process.emit('uncaughtException', new Error('boom'));
+    process.emit('unhandledRejection', 'nope', Promise.resolve());
+  } finally {
+    restore();
+  }
+
+  assert.strictEqual(process.listenerCount('uncaughtException'), listeners, 'Should remove its handlers');
+  assert.strictEqual(records[0].level, 'error');
+  assert.ok(records[0].message.startsWith('Uncaught exception: Error: boom\n    at '), 'Should include the stack');
+  assert.strictEqual(records[1].message, 'Unhandled rejection: nope');
+});
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+// Test 70: loadConfig() reads MINILOG_* environment variables
+test('loadConfig() reads MINILOG_* environment variables', () => {
+  const dir = tempDir();
+  try {
+    const options = loadConfig({
+      MINILOG_LEVEL: 'warn',
+      MINILOG_FORMAT: 'JSON',
+      MINILOG_TIMESTAMP: '1',
+      MINILOG_ICONS: 'false',
+      MINILOG_COLORS: 'auto',
+    }, dir);
+
+    assert.deepStrictEqual(options, { level: 'warn', format: 'json', timestamp: true, icons: false, colors: 'auto' });
+    assert.deepStrictEqual(loadConfig({}, dir), {}, 'Unset variables should be left out');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+// Test 71: minilog.config.json is read and overridden by the environment
+test('minilog.config.json is read and overridden by the environment', () => {
+  const dir = tempDir();
+  try {
+    fs.writeFileSync(path.join(dir, 'minilog.config.json'), JSON.stringify({ level: 'info', timestamp: true }));
+    fs.writeFileSync(path.join(dir, 'other.json'), JSON.stringify({ icons: false }));
+
+    assert.deepStrictEqual(loadConfig({}, dir), { level: 'info', timestamp: true });
+    assert.deepStrictEqual(loadConfig({ MINILOG_LEVEL: 'error' }, dir), { level: 'error', timestamp: true });
+    assert.deepStrictEqual(loadConfig({ MINILOG_CONFIG: 'other.json' }, dir), { icons: false });
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+// Test 72: Invalid configuration values throw a TypeError
+test('Invalid configuration values throw a TypeError', () => {
+  const dir = tempDir();
+  try {
+    assert.throws(
+      () => loadConfig({ MINILOG_LEVEL: 'verbose' }, dir),
+      { name: 'TypeError', message: 'Invalid MINILOG_LEVEL: "verbose". Valid levels: debug, info, warn, error, success' }
+    );
+    assert.throws(() => loadConfig({ MINILOG_FORMAT: 'xml' }, dir), /Valid formats: pretty, json/);
+    assert.throws(() => loadConfig({ MINILOG_COLORS: 'yes' }, dir), /Invalid MINILOG_COLORS: "yes"/);
+
+    fs.writeFileSync(path.join(dir, 'minilog.config.json'), JSON.stringify({ verbose: true }));
+    assert.throws(() => loadConfig({}, dir), /Invalid config key: "verbose"/);
+    fs.writeFileSync(path.join(dir, 'minilog.config.json'), '{ level: ');
+    assert.throws(() => loadConfig({}, dir), /Invalid config file/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+// ============================================================
+// TIMESTAMP FORMATS
+// ============================================================
+
+// Test 73: Timestamp presets and patterns use the injected clock
+test('Timestamp presets and patterns use the injected clock', () => {
+  const time = Date.UTC(2024, 0, 2, 3, 4, 5, 6);
+  const render = (options: Parameters<typeof create>[0]) => {
+    const records: LogRecord[] = [];
+    const testLog = create({ icons: false, colors: false, clock: () => time, transports: [{ write: (record) => records.push(record) }], ...options });
+    testLog.info('hi');
+    return records[0].output;
+  };
+
+  assert.strictEqual(render({ timestamp: true }), '[2024-01-02T03:04:05.006Z] [INFO] hi');
+  assert.strictEqual(render({ timestamp: 'iso' }), '[2024-01-02T03:04:05.006Z] [INFO] hi');
+  assert.strictEqual(render({ timestamp: 'epoch' }), `[${time}] [INFO] hi`);
+  assert.strictEqual(render({ timestamp: 'time', utc: true }), '[03:04:05.006] [INFO] hi');
+  assert.strictEqual(render({ timestamp: 'YYYY/MM/DD HH:mm:ss.SSS Z', utc: true }), '[2024/01/02 03:04:05.006 Z] [INFO] hi');
+  assert.ok(/^\[2024-01-0[12]T\d\d:04:05\.006[+-]\d\d:\d\d\] /.test(render({ timestamp: 'iso', utc: false })), 'Should use a local offset');
+  assert.throws(() => create({ timestamp: 'nope' }), { name: 'TypeError', message: /Invalid timestamp format: "nope"/ });
+});
+
+// Test 74: Relative timestamps show the time since the previous line
+test('Relative timestamps show the time since the previous line', () => {
+  const records: LogRecord[] = [];
+  const times = [1000, 1012, 3512];
+  const testLog = create({
+    icons: false,
+    timestamp: 'relative',
+    clock: () => times.shift()!,
+    transports: [{ write: (record) => records.push(record) }],
+  });
+
+  testLog.info('start');
+  testLog.info('step');
+  testLog.info('slow step');
+
+  assert.deepStrictEqual(records.map(r => r.output.split(' ')[0]), ['[+0ms]', '[+12ms]', '[+2.500s]']);
+  assert.strictEqual(records[2].timestamp.getTime(), 3512, 'Records should use the clock');
+});
+
+// Test 75: Elapsed timestamps count from process start
+test('Elapsed timestamps count from process start', () => {
+  const records: LogRecord[] = [];
+  const start = Date.now() - process.uptime() * 1000;
+  const testLog = create({
+    icons: false,
+    timestamp: 'elapsed',
+    clock: () => start + 61500,
+    transports: [{ write: (record) => records.push(record) }],
+  });
+
+  testLog.info('done');
+  assert.ok(/^\[01:01\.\d{3}\] \[INFO\] done$/.test(records[0].output), records[0].output);
+
+  const dir = tempDir();
+  try {
+    assert.deepStrictEqual(loadConfig({ MINILOG_TIMESTAMP: 'HH:mm' }, dir), { timestamp: 'HH:mm' });
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+// ============================================================
+// MEMORY TRANSPORT
+// ============================================================
+
+// Test 76: memoryTransport keeps the most recent records in a ring buffer
+test('memoryTransport keeps the most recent records in a ring buffer', () => {
+  const memory = memoryTransport({ limit: 3 });
+  const testLog = create({ icons: false, colors: true, transports: [memory] });
+
+  for (let i = 1; i <= 5; i++) {
+    testLog.info(`message ${i}`);
+  }
+
+  assert.deepStrictEqual(memory.records.map(r => r.message), ['message 3', 'message 4', 'message 5']);
+  assert.strictEqual(memory.dump(), '[INFO] message 3\n[INFO] message 4\n[INFO] message 5', 'dump() should strip colors');
+  memory.clear();
+  assert.strictEqual(memory.records.length, 0);
+  assert.throws(() => memoryTransport({ limit: 0 }), /Invalid memory transport limit/);
+});
+
+// Test 77: createTestLogger() exposes records, find(), clear() and dump()
+test('createTestLogger() exposes records, find(), clear() and dump()', () => {
+  const testLog = createTestLogger({ prefix: '[Test]', icons: false });
+
+  testLog.info('user created', { id: 1 });
+  testLog.warn('disk almost full');
+  testLog.child({ requestId: 'abc' }).error('request failed');
+
+  assert.strictEqual(testLog.records.length, 3);
+  assert.strictEqual(testLog.find('warn')?.message, 'disk almost full');
+  assert.strictEqual(testLog.find('info', /created/)?.message, 'user created {\n  "id": 1\n}');
+  assert.strictEqual(testLog.find(undefined, 'failed')?.bindings.requestId, 'abc');
+  assert.strictEqual(testLog.find('error', 'created'), undefined);
+  assert.ok(testLog.dump().startsWith('[Test] [INFO] user created'));
+
+  testLog.clear();
+  assert.deepStrictEqual(testLog.records, []);
+  assert.throws(() => createTestLogger({ levels: { find: { priority: 1 } } }), /"find" is reserved/);
+});
+
+// Test 78: errorContext writes buffered debug records before an error
+test('errorContext writes buffered debug records before an error', () => {
+  const testLog = createTestLogger({ level: 'info', errorContext: 2 });
+
+  testLog.debug('step 1');
+  testLog.debug('step 2');
+  testLog.info('working');
+  testLog.debug('step 3');
+  testLog.error('failed');
+  testLog.debug('step 4');
+  testLog.warn('not an error');
+
+  assert.deepStrictEqual(testLog.records.map(r => r.message), ['working', 'step 2', 'step 3', 'failed', 'not an error']);
+  assert.strictEqual(testLog.records[1].level, 'debug');
+  assert.throws(() => create({ errorContext: -1 }), /Invalid errorContext/);
+});
+
+// ============================================================
+// THROTTLING
+// ============================================================
+
+// Test 79: Sampling keeps a fraction of debug/info but never warn by default
+test('Sampling keeps a fraction of debug/info but never warn by default', () => {
+  const rolls = [0.1, 0.9, 0.1, 0.9];
+  const testLog = createTestLogger({ throttle: { sample: 0.5, random: () => rolls.shift() ?? 0.9 } });
+
+  testLog.debug('kept');
+  testLog.debug('dropped');
+  testLog.info('kept');
+  testLog.info('dropped');
+  testLog.warn('always');
+  testLog.error('always');
+
+  assert.deepStrictEqual(testLog.records.map(r => `${r.level} ${r.message}`), ['debug kept', 'info kept', 'warn always', 'error always']);
+
+  const warnLog = createTestLogger({ throttle: { sample: { warn: 0 } } });
+  warnLog.warn('sampled');
+  warnLog.info('not configured');
+  assert.deepStrictEqual(warnLog.records.map(r => r.message), ['not configured'], 'Object settings apply to the named levels only');
+});
+
+// Test 80: Rate limits cap records per level in each interval
+test('Rate limits cap records per level in each interval', () => {
+  let now = 0;
+  const testLog = createTestLogger({ clock: () => now, throttle: { limit: { info: 2, warn: 1 }, interval: 1000 } });
+
+  for (let i = 0; i < 5; i++) {
+    testLog.info(`info ${i}`);
+    testLog.warn(`warn ${i}`);
+  }
+  now = 1000;
+  testLog.info('next window');
+
+  assert.deepStrictEqual(testLog.records.map(r => r.message), ['info 0', 'warn 0', 'info 1', 'next window']);
+  assert.throws(() => create({ throttle: { sample: 2 } }), /Invalid throttle sample: 2/);
+  assert.throws(() => create({ throttle: { interval: 0 } }), /Invalid throttle interval/);
+});
+
+// Test 81: Duplicate messages collapse into a summary line
+test('Duplicate messages collapse into a summary line', async () => {
+  let now = 0;
+  const testLog = createTestLogger({ clock: () => now, throttle: { dedupe: true } });
+
+  for (let i = 0; i < 512; i++) {
+    testLog.warn('Retrying connection');
+  }
+  testLog.warn('Giving up');
+  testLog.info('Retrying connection');
+  now = 10000;
+  testLog.warn('Retrying connection');
+
+  assert.deepStrictEqual(testLog.records.map(r => r.message), [
+    'Retrying connection',
+    'Giving up',
+    'Retrying connection',
+    'Retrying connection … repeated 511 times in 10s',
+    'Retrying connection',
+  ]);
+
+  testLog.warn('Retrying connection');
+  await testLog.flush();
+  assert.strictEqual(testLog.records[5].message, 'Retrying connection … repeated 1 time in 10s', 'flush() should report pending duplicates');
+});
+
+// ============================================================
+// HOOKS
+// ============================================================
+
+// Test 82: Record hooks enrich, rewrite and drop records before formatting
+test('Record hooks enrich, rewrite and drop records before formatting', () => {
+  const testLog = createTestLogger({
+    icons: false,
+    redact: ['token'],
+    hooks: [
+      (record) => { record.fields = { ...record.fields, pid: 42, token: 'secret' }; },
+      (record) => (record.args[0] === 'noisy' ? false : undefined),
+      (record) => (record.level === 'warn' ? { ...record, level: 'error', args: ['escalated:', ...record.args] } : undefined),
+    ],
+  });
+
+  testLog.info('hello');
+  testLog.info('noisy');
+  testLog.warn('disk full');
+
+  assert.deepStrictEqual(testLog.records.map(r => r.output), [
+    '[INFO] hello pid=42 token=[REDACTED]',
+    '[ERROR] escalated: disk full pid=42 token=[REDACTED]',
+  ]);
+  assert.strictEqual(testLog.records[1].stream, 'stderr', 'Priority and stream should follow the new level');
+  assert.throws(() => createTestLogger({ hooks: [(record) => ({ ...record, level: 'loud' })] }).info('x'), /Invalid log level: "loud"/);
+});
+
+// Test 83: Output hooks run on formatted records and children append hooks
+test('Output hooks run on formatted records and children append hooks', () => {
+  const calls: string[] = [];
+  const testLog = createTestLogger({
+    icons: false,
+    hooks: {
+      record: [() => { calls.push('parent'); }],
+      output: [(record) => ({ ...record, output: record.output.toUpperCase() })],
+    },
+  });
+  const childLog = testLog.create({ hooks: [() => { calls.push('child'); }] });
+
+  testLog.info('from parent');
+  childLog.info('from child');
+
+  assert.deepStrictEqual(calls, ['parent', 'parent', 'child']);
+  assert.deepStrictEqual(testLog.records.map(r => r.output), ['[INFO] FROM PARENT', '[INFO] FROM CHILD']);
+  assert.strictEqual(testLog.records[0].message, 'from parent');
+});
+
+// ============================================================
+// ASYNC CONTEXT
+// ============================================================
+
+// Test 84: withContext() fields reach every logger across async calls
+test('withContext() fields reach every logger across async calls', async () => {
+  const testLog = createTestLogger();
+  const childLog = testLog.child({ component: 'db' });
+
+  await withContext({ requestId: 'abc', tenant: 'acme' }, async () => {
+    testLog.info('start');
+    await new Promise(resolve => setTimeout(resolve, 1));
+    childLog.startTimer().done('query', { tenant: 'override' });
+  });
+  testLog.info('outside');
+
+  assert.deepStrictEqual(testLog.records.map(r => r.fields), [
+    { requestId: 'abc', tenant: 'acme' },
+    { requestId: 'abc', tenant: 'override' },
+    {},
+  ]);
+  assert.ok(testLog.records[1].output.includes('[INFO] query component=db requestId=abc tenant=override duration='));
+  assert.strictEqual(getContext(), undefined);
+});
+
+// Test 85: Nested contexts merge and concurrent contexts stay separate
+test('Nested contexts merge and concurrent contexts stay separate', async () => {
+  const testLog = createTestLogger({ format: 'json' });
+
+  const handle = (requestId: string, delay: number) => runWithContext({ requestId }, async () => {
+    await new Promise(resolve => setTimeout(resolve, delay));
+    withContext({ step: 'save' }, () => testLog.info('saved'));
+  });
+  await Promise.all([handle('first', 5), handle('second', 1)]);
+
+  const entries = testLog.records.map(r => JSON.parse(r.output));
+  assert.deepStrictEqual(entries.map(e => [e.requestId, e.step]), [['second', 'save'], ['first', 'save']]);
+  assert.strictEqual(withContext({ a: 1 }, () => getContext()?.a), 1, 'Should return the result of fn');
+});
+
+// ============================================================
+// RUNTIMES AND ENTRY POINTS
+// ============================================================
+
+/**
+ * Run a function with extra globals defined, removing them afterwards
+ */
+function withGlobals(globals: Record<string, unknown>, fn: () => void): void {
+  const target = globalThis as Record<string, unknown>;
+  for (const key of Object.keys(globals)) {
+    target[key] = globals[key];
+  }
+  try {
+    fn();
+  } finally {
+    for (const key of Object.keys(globals)) {
+      delete target[key];
+    }
+  }
+}
+
+// Test 86: detectRuntime() recognizes runtimes from their globals
+test('detectRuntime() recognizes runtimes from their globals', () => {
+  assert.strictEqual(detectRuntime(), 'node');
+  assert.strictEqual(detectRuntime({ window: {}, document: {} }), 'browser');
+  assert.strictEqual(detectRuntime({ Deno: { version: { deno: '2.0.0' } }, process }), 'deno');
+  assert.strictEqual(detectRuntime({ process: { versions: { node: '22.0.0', bun: '1.1.0' } } }), 'bun');
+  assert.strictEqual(detectRuntime({ importScripts: () => {} }), 'worker');
+  assert.strictEqual(detectRuntime({ EdgeRuntime: 'edge-runtime' }), 'worker');
+  assert.strictEqual(detectRuntime({}), 'unknown');
+});
+
+// Test 87: Browsers get %c CSS styling and other runtimes plain text
+test('Browsers get %c CSS styling and other runtimes plain text', () => {
+  const records: LogRecord[] = [];
+  const calls: unknown[][] = [];
+  const originalLog = console.log;
+
+  withGlobals({ window: {}, document: {} }, () => {
+    console.log = (...args: unknown[]) => { calls.push(args); };
+    try {
+      const testLog = create({ icons: false, prefix: '[App]', transports: [consoleTransport(), { write: (record) => records.push(record) }] });
+      testLog.info('100% done %s');
+    } finally {
+      console.log = originalLog;
+    }
+  });
+
+  const css = ['%c%s %c%s %c%s', 'color: darkcyan', '[App]', 'color: darkcyan', '[INFO]', '', '100% done %s'];
+  assert.deepStrictEqual(records[0].css, css);
+  assert.strictEqual(records[0].output, '[App] [INFO] 100% done %s', 'output should stay plain');
+  assert.deepStrictEqual(calls[0], css, 'The console transport should pass the CSS arguments');
+
+  withEnv({ FORCE_COLOR: '1' }, { stdout: true }, () => {
+    withGlobals({ Deno: { version: { deno: '2.0.0' } } }, () => {
+      const testLog = create({ icons: false, transports: [{ write: (record) => records.push(record) }] });
+      testLog.info('plain');
+    });
+  });
+  assert.strictEqual(records[1].output, '[INFO] plain');
+  assert.strictEqual(records[1].css, undefined);
+});
+
+// Test 88: CommonJS and ESM entries export the same API without clobbering
+test('CommonJS and ESM entries export the same API without clobbering', () => {
+  const cjs = require(path.join(__dirname, '..', 'src', 'cjs.js'));
+  assert.strictEqual(typeof cjs.info, 'function');
+  assert.strictEqual(cjs.create, create, 'require() should expose the factory as create');
+  assert.strictEqual(cjs.default, log);
+  assert.notStrictEqual(log.create, create, 'The default logger should keep its own create');
+
+  const esm = path.join(__dirname, '..', 'esm', 'index.js');
+  const script = `import log, { create } from ${JSON.stringify(esm)};
+    log.info('from esm');
+    console.log(typeof create, log.create !== create);`;
+  const result = spawnSync(process.execPath, ['--input-type=module', '-e', script], {
+    encoding: 'utf8',
+    env: { ...process.env, NO_COLOR: '1', FORCE_COLOR: undefined },
+    timeout: 10000,
+  });
+  assert.strictEqual(result.status, 0, result.stderr);
+  assert.deepStrictEqual(result.stdout.trim().split('\n'), ['ℹ️ [INFO] from esm', 'function true']);
+});
+
+// ============================================================
+// CLI
+// ============================================================
+
+// Test 89: The CLI viewer renders JSON lines exactly like pretty output
+test('The CLI viewer renders JSON lines exactly like pretty output', () => {
+  const time = Date.UTC(2024, 0, 15, 10, 30);
+  const options = { prefix: '[API]', timestamp: true, colors: false, clock: () => time };
+  const jsonLog = createTestLogger({ ...options, format: 'json' });
+  const prettyLog = createTestLogger(options);
+  const error = new TypeError('bad input');
+
+  for (const testLog of [jsonLog.child({ requestId: 'abc' }), prettyLog.child({ requestId: 'abc' })]) {
+    testLog.info('Request finished');
+    testLog.warn('Slow query %dms', 1250);
+    testLog.error('Failed:', error);
+    testLog.startTimer().done('step');
+  }
+
+  const lines: string[] = [];
+  const view = createViewer({ colors: false }, text => lines.push(text));
+  jsonLog.records.forEach(record => view(record.output));
+  view('plain text line');
+
+  const expected = prettyLog.records.map(record => record.output);
+  assert.deepStrictEqual(lines.slice(0, 3), expected.slice(0, 3));
+  assert.ok(lines[3].startsWith('ℹ️ [2024-01-15T10:30:00.000Z] [API] [INFO] step requestId=abc duration='));
+  assert.strictEqual(lines[4], 'plain text line', 'Non-JSON lines should pass through');
+
+  // Levels named like logger methods are printed as-is without stopping the viewer
+  const reserved = JSON.stringify({ level: 'group', msg: 'odd' });
+  view(reserved);
+  view(jsonLog.records[0].output);
+  assert.deepStrictEqual(lines.slice(5), [reserved, expected[0]]);
+});
+
+// Test 90: CLI flags filter by level, prefix, pattern, time and fields
+test('CLI flags filter by level, prefix, pattern, time and fields', () => {
+  const now = Date.UTC(2024, 0, 15, 12, 0);
+  const entry = (level: string, minutesAgo: number, prefix: string, msg: string) => JSON.stringify({
+    time: new Date(now - minutesAgo * 60000).toISOString(), level, prefix, msg, user: 'ann', status: 500,
+  });
+  const input = [
+    entry('debug', 1, 'API', 'cache miss'),
+    entry('warn', 30, 'API', 'old warning'),
+    entry('warn', 5, 'DB', 'slow query'),
+    entry('error', 2, 'API', 'request failed'),
+    entry('error', 1, 'API', 'timeout'),
+  ];
+
+  const render = (argv: string[]) => {
+    const lines: string[] = [];
+    const view = createViewer({ ...parseArgs(argv, now), colors: false, icons: false, timestamp: false }, text => lines.push(text));
+    input.forEach(view);
+    return lines;
+  };
+
+  assert.deepStrictEqual(render(['--level', 'warn', '--prefix=API', '--since', '10m', '--grep', 'fail|slow', '--fields', 'status']), [
+    'API [ERROR] request failed status=500',
+  ]);
+  assert.strictEqual(render(['-l', 'error', '-s', new Date(now - 90000).toISOString()]).length, 1);
+
+  assert.deepStrictEqual(parseArgs(['-f', 'app.log', '--timestamp', 'none', '--no-color']), {
+    follow: true, help: false, file: 'app.log', timestamp: false, colors: false,
+  });
+  assert.throws(() => parseArgs(['--level', '']), /Invalid log level: ""/);
+  assert.throws(() => parseArgs(['--since', 'yesterday']), /Invalid --since value/);
+  assert.throws(() => parseArgs(['--wat']), /Unknown option: --wat/);
+});
+
+/**
+ * Wait until a condition holds, checking every few milliseconds
+ */
+async function waitFor(condition: () => boolean, timeout = 5000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for a condition');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+// Test 91: followFile() reads appended lines and the minilog bin renders a file
+test('followFile() reads appended lines and the minilog bin renders a file', async () => {
+  const dir = tempDir();
+  const file = path.join(dir, 'app.log');
+  const line = (msg: string) => JSON.stringify({ time: '2024-01-15T10:30:00.000Z', level: 'info', msg }) + '\n';
+
+  try {
+    fs.writeFileSync(file, line('first'));
+    const seen: string[] = [];
+    const stop = followFile(file, text => seen.push(JSON.parse(text).msg), 10);
+    try {
+      // A partial line and a character split across two reads wait for the rest
+      const partial = Buffer.from(line('grüße'));
+      const split = partial.indexOf('ü') + 1;
+      fs.appendFileSync(file, Buffer.concat([Buffer.from(line('second')), partial.subarray(0, split)]));
+      await waitFor(() => seen.length === 2);
+      fs.appendFileSync(file, partial.subarray(split));
+      await waitFor(() => seen.length === 3);
+    } finally {
+      stop();
+    }
+    assert.deepStrictEqual(seen, ['first', 'second', 'grüße']);
+
+    // A broken config file in the working directory does not stop the viewer
+    fs.writeFileSync(path.join(dir, 'minilog.config.json'), '{ broken');
+    const result = spawnSync(process.execPath, [path.join(__dirname, '..', 'src', 'cli.js'), '--no-color', '--timestamp=time', file], {
+      cwd: dir,
+      encoding: 'utf8',
+      env: { ...process.env, TZ: 'UTC' },
+      timeout: 10000,
+    });
+    assert.strictEqual(result.status, 0, result.stderr);
+    assert.ok(result.stderr.includes('Invalid config file') && result.stderr.includes('(ignored)'), result.stderr);
+    assert.deepStrictEqual(result.stdout.trim().split('\n'), [
+      'ℹ️ [10:30:00.000] [INFO] first',
+      'ℹ️ [10:30:00.000] [INFO] second',
+      'ℹ️ [10:30:00.000] [INFO] grüße',
+    ]);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+// ============================================================
+// HTTP MIDDLEWARE
+// ============================================================
+
+/**
+ * Start a server on a random local port, send requests and close it
+ */
+async function withServer(
+  handler: http.RequestListener,
+  fn: (request: (path: string, headers?: http.OutgoingHttpHeaders) => Promise<http.IncomingMessage>) => Promise<void>
+): Promise<void> {
+  const server = http.createServer(handler);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const request = (urlPath: string, headers: http.OutgoingHttpHeaders = {}) => new Promise<http.IncomingMessage>((resolve, reject) => {
+    http.get({ host: '127.0.0.1', port, path: urlPath, headers }, res => {
+      res.resume();
+      res.on('end', () => resolve(res));
+    }).on('error', reject);
+  });
+  try {
+    await fn(request);
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+// Test 92: httpLogger() logs one line per request with a level from the status
+test('httpLogger() logs one line per request with a level from the status', async () => {
+  const testLog = createTestLogger({ icons: false });
+  const logRequests = httpLogger(testLog, { generateId: () => 'req-1' });
+
+  await withServer((req, res) => {
+    logRequests(req, res);
+    const status = Number(req.url!.slice(1));
+    res.statusCode = status;
+    res.write('hello ');
+    res.end('wörld');
+  }, async (request) => {
+    const ok = await request('/200');
+    await request('/404');
+    await request('/500');
+    assert.strictEqual(ok.headers['x-request-id'], 'req-1', 'Should echo the request ID');
+  });
+
+  assert.deepStrictEqual(testLog.records.map(r => r.level), ['success', 'warn', 'error']);
+  const [first] = testLog.records;
+  assert.strictEqual(first.message, 'GET /200');
+  assert.deepStrictEqual(first.fields, { status: 200, size: 12 });
+  assert.deepStrictEqual(first.bindings, { requestId: 'req-1' });
+  assert.ok(/^\[SUCCESS\] GET \/200 requestId=req-1 status=200 size=12 duration=[\d.]+(µs|ms)$/.test(first.output), first.output);
+});
+
+// Test 93: httpLogger() works as (req, res, next) middleware with req.log
+test('httpLogger() works as (req, res, next) middleware with req.log', async () => {
+  const testLog = createTestLogger({ format: 'json' });
+  const middleware = httpLogger(testLog, { skip: req => req.url === '/health' });
+
+  await withServer((req, res) => {
+    middleware(req, res, () => {
+      const { log: reqLog, id } = req as typeof req & { log: typeof testLog; id: string };
+      reqLog.info('handling', id);
+      res.end();
+    });
+  }, async (request) => {
+    await request('/users?page=2', { 'X-Request-Id': 'from-client' });
+    await request('/health');
+  });
+
+  const entries = testLog.records.map(r => JSON.parse(r.output));
+  assert.deepStrictEqual(entries.map(e => [e.level, e.msg, e.requestId]), [
+    ['info', 'handling from-client', 'from-client'],
+    ['success', 'GET /users?page=2', 'from-client'],
+    ['info', 'handling ' + entries[2].requestId, entries[2].requestId],
+  ]);
+  assert.ok(/^[0-9a-f-]{32,36}$/.test(entries[2].requestId), 'Should generate an ID');
+  assert.strictEqual(typeof entries[1].duration, 'number');
+  assert.strictEqual(entries[1].size, 0);
+});
+
+/**
+ * Start a server that answers batched POSTs with the status returned by `respond`
+ */
+async function withLogServer(
+  respond: (body: string, index: number) => number,
+  fn: (url: string, bodies: string[]) => Promise<void>
+): Promise<void> {
+  const bodies: string[] = [];
+  let index = 0;
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      assert.strictEqual(req.headers['content-type'], 'application/x-ndjson');
+      res.statusCode = respond(body, index++);
+      if (res.statusCode === 200) bodies.push(body);
+      res.end();
+    });
+  });
+  // Keep-alive connections are closed by hand, as server.closeAllConnections() needs Node 18.2
+  const sockets = new Set<net.Socket>();
+  server.on('connection', socket => {
+    sockets.add(socket);
+    socket.once('close', () => sockets.delete(socket));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  try {
+    await fn(`http://127.0.0.1:${port}/logs`, bodies);
+  } finally {
+    sockets.forEach(socket => socket.destroy());
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+// Test 94: httpTransport() POSTs batches of records as NDJSON
+test('httpTransport() POSTs batches of records as NDJSON', async () => {
+  await withLogServer(() => 200, async (url, bodies) => {
+    const remote = httpTransport({ url, batchSize: 2, flushInterval: 60000 });
+    const remoteLog = create({ prefix: '[api]', transports: [remote] });
+    remoteLog.child({ user: 42 }).info('first', { path: '/' });
+    remoteLog.warn('second');
+    remoteLog.error('third');
+    await remoteLog.close();
+
+    assert.strictEqual(bodies.length, 2, 'Should send a full batch and the rest on close');
+    const entries = bodies.join('').trim().split('\n').map(line => JSON.parse(line));
+    assert.deepStrictEqual(entries.map(e => [e.level, e.msg, e.prefix]), [
+      ['info', 'first', '[api]'],
+      ['warn', 'second', '[api]'],
+      ['error', 'third', '[api]'],
+    ]);
+    assert.strictEqual(entries[0].user, 42);
+    assert.strictEqual(entries[0].path, '/');
+    assert.strictEqual(remote.pending, 0);
+    assert.strictEqual(remote.dropped, 0);
+  });
+});
+
+// Test 95: Remote transports retry with backoff and drop the oldest records past maxSpool
+test('Remote transports retry with backoff and drop the oldest records past maxSpool', async () => {
+  const errors: string[] = [];
+  const drops: Array<[number, number]> = [];
+  const attempts: number[] = [];
+
+  await withLogServer((body, index) => {
+    attempts.push(Date.now());
+    if (body.includes('rejected')) return 400;
+    return index < 2 ? 503 : 200;
+  }, async (url, bodies) => {
+    const remote = httpTransport({
+      url,
+      maxSpool: 3,
+      flushInterval: 0,
+      retryDelay: 20,
+      onError: error => errors.push(error.message),
+      onDrop: (count, total) => drops.push([count, total]),
+    });
+    const remoteLog = create({ transports: [remote] });
+    for (let i = 1; i <= 5; i++) {
+      remoteLog.info(`record ${i}`);
+    }
+    assert.strictEqual(remote.dropped, 2, 'Should keep only the newest 3 records');
+    assert.strictEqual(remote.pending, 3);
+
+    const deadline = Date.now() + 2000;
+    while (remote.pending > 0 && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    assert.deepStrictEqual(bodies[0].trim().split('\n').map(line => JSON.parse(line).msg), ['record 3', 'record 4', 'record 5']);
+    assert.ok(attempts[2] - attempts[1] >= attempts[1] - attempts[0], 'Should back off exponentially');
+
+    // Client errors are not retried
+    remoteLog.info('rejected');
+    await remoteLog.flush();
+    assert.strictEqual(remote.pending, 0);
+    await remoteLog.close();
+  });
+
+  assert.deepStrictEqual(errors, [
+    'HTTP transport request failed with status 503',
+    'HTTP transport request failed with status 503',
+    'HTTP transport request failed with status 400',
+  ]);
+  assert.deepStrictEqual(drops, [[1, 1], [1, 2], [1, 3]]);
+});
+
+// Test 96: flush() gives up on an unreachable endpoint and close() counts what is left
+test('flush() gives up on an unreachable endpoint and close() counts what is left', async () => {
+  const server = net.createServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+
+  const errors: Error[] = [];
+  const remote = syslogTransport({ host: '127.0.0.1', port, protocol: 'tcp', onError: error => errors.push(error) });
+  const remoteLog = create({ transports: [remote] });
+  remoteLog.info('lost');
+  remoteLog.info('also lost');
+  await remoteLog.flush();
+  assert.strictEqual(remote.pending, 2, 'Should keep records spooled after a failed flush');
+  assert.strictEqual(errors.length, 1);
+  await remoteLog.close();
+  assert.strictEqual(remote.dropped, 2);
+  assert.strictEqual(remote.pending, 0);
+
+  assert.throws(() => syslogTransport({ protocol: 'tls' as 'tcp' }), /Invalid syslog protocol: "tls"\. Valid protocols: udp, tcp/);
+  assert.throws(() => syslogTransport({ severities: { info: 8 } }), /Invalid syslog severity for "info": 8\. Expected an integer from 0 to 7/);
+  assert.throws(() => httpTransport({ url: 'ftp://example.com' }), /Invalid HTTP transport url/);
+});
+
+// Test 97: syslogTransport() sends RFC 5424 messages over UDP with mapped severities
+test('syslogTransport() sends RFC 5424 messages over UDP with mapped severities', async () => {
+  const socket = dgram.createSocket('udp4');
+  const messages: string[] = [];
+  socket.on('message', message => messages.push(message.toString()));
+  await new Promise<void>(resolve => socket.bind(0, '127.0.0.1', resolve));
+  const { port } = socket.address();
+
+  try {
+    const remote = syslogTransport({
+      host: '127.0.0.1',
+      port,
+      facility: 16,
+      appName: 'my app',
+      hostname: 'web-1',
+      severities: { audit: 5, warn: 3 },
+    });
+    const remoteLog = create({ name: 'api:auth', levels: { audit: { priority: 1 } }, transports: [remote] });
+    remoteLog.child({ user: 'a"b' }).info('signed in', { ms: 12 });
+    remoteLog.warn('disk low');
+    remoteLog.audit('export');
+    await remoteLog.close();
+
+    const deadline = Date.now() + 2000;
+    while (messages.length < 3 && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    const pattern = /^<(\d+)>1 (\S+) web-1 my_app (\d+) api:auth (-|\[.*\]) (.*)$/;
+    const parsed = messages.map(message => message.match(pattern));
+    assert.ok(parsed.every(Boolean), messages.join('\n'));
+    assert.deepStrictEqual(parsed.map(match => Number(match![1])), [16 * 8 + 6, 16 * 8 + 3, 16 * 8 + 5]);
+    assert.deepStrictEqual(parsed.map(match => match![5]), ['signed in', 'disk low', 'export']);
+    assert.strictEqual(parsed[0]![4], '[fields@32473 user="a\\"b" ms="12"]');
+    assert.strictEqual(parsed[0]![3], String(process.pid));
+    assert.ok(!Number.isNaN(Date.parse(parsed[0]![2])));
+  } finally {
+    socket.close();
+  }
+});
+
+// Test 98: syslogTransport() frames batches with octet counting over TCP
+test('syslogTransport() frames batches with octet counting over TCP', async () => {
+  let received = '';
+  const server = net.createServer(connection => {
+    connection.setEncoding('utf8');
+    connection.on('data', chunk => { received += chunk; });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    const remote = syslogTransport({ host: '127.0.0.1', port, protocol: 'tcp', batchSize: 2 });
+    const remoteLog = create({ transports: [remote] });
+    remoteLog.error('first line');
+    remoteLog.debug('ünïcode');
+    remoteLog.success('third');
+    await remoteLog.close();
+
+    const deadline = Date.now() + 2000;
+    while (!received.includes('third') && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    const frames: string[] = [];
+    let rest = Buffer.from(received);
+    while (rest.length > 0) {
+      const space = rest.indexOf(' ');
+      const length = Number(rest.subarray(0, space).toString());
+      frames.push(rest.subarray(space + 1, space + 1 + length).toString());
+      rest = rest.subarray(space + 1 + length);
+    }
+    assert.deepStrictEqual(frames.map(frame => frame.replace(/^(<\d+>).* - (.*)$/, '$1 $2')), [
+      '<11> first line',
+      '<15> ünïcode',
+      '<13> third',
+    ]);
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+});
+
+// ============================================================
+// Multiline output and groups
+// ============================================================
+
+// Test 99: Multiline modes repeat the header or add a gutter on continuation lines
+test('Multiline modes repeat the header or add a gutter on continuation lines', () => {
+  const message = 'Query failed:\nSELECT *\nFROM users';
+  const outputs = (['none', 'repeat', 'gutter'] as const).map(multiline => {
+    const testLog = createTestLogger({ prefix: '[db]', icons: false, multiline });
+    testLog.error(message);
+    return testLog.records[0].output;
+  });
+
+  assert.strictEqual(outputs[0], '[db] [ERROR] Query failed:\nSELECT *\nFROM users', 'Should keep column 0 by default');
+  assert.strictEqual(outputs[1], '[db] [ERROR] Query failed:\n[db] [ERROR] SELECT *\n[db] [ERROR] FROM users');
+  assert.strictEqual(outputs[2], '[db] [ERROR] Query failed:\n[db] │ SELECT *\n[db] │ FROM users');
+
+  const plain = createTestLogger({ icons: false, multiline: 'gutter' });
+  plain.info('a\nb');
+  assert.strictEqual(plain.records[0].output, '[INFO] a\n│ b');
+  assert.strictEqual(plain.records[0].message, 'a\nb', 'Should not change the message');
+
+  const jsonLog = createTestLogger({ format: 'json', multiline: 'repeat' });
+  jsonLog.info('a\nb');
+  assert.strictEqual(JSON.parse(jsonLog.records[0].output).msg, 'a\nb');
+
+  assert.throws(() => create({ multiline: 'wrap' as 'none' }), /Invalid multiline mode: "wrap"\. Valid modes: none, repeat, gutter/);
+});
+
+// Test 100: group() indents nested records until groupEnd()
+test('group() indents nested records until groupEnd()', () => {
+  const testLog = createTestLogger({ icons: false, multiline: 'repeat' });
+  testLog.group('Request');
+  testLog.info('parsing');
+  testLog.group('Database');
+  testLog.warn('slow query\ntook 2s');
+  testLog.groupEnd();
+  testLog.success('done');
+  testLog.groupEnd();
+  testLog.groupEnd();
+  testLog.info('after');
+
+  assert.deepStrictEqual(testLog.dump().split('\n'), [
+    '[INFO] Request',
+    '[INFO]   parsing',
+    '[INFO]   Database',
+    '[WARN]     slow query',
+    '[WARN]     took 2s',
+    '[SUCCESS]   done',
+    '[INFO] after',
+  ]);
+  assert.strictEqual(testLog.records[1].message, 'parsing');
+});
+
+// Test 101: Groups with a filtered label do not indent
+test('Groups with a filtered label do not indent', () => {
+  const testLog = createTestLogger({ icons: false, level: 'warn' });
+  testLog.group('Hidden');
+  testLog.warn('not nested');
+  testLog.setLevel('info');
+  testLog.group('Shown');
+  testLog.error('nested once');
+  testLog.groupEnd();
+  testLog.groupEnd();
+  testLog.warn('back');
+
+  assert.deepStrictEqual(testLog.dump().split('\n'), [
+    '[WARN] not nested',
+    '[INFO] Shown',
+    '[ERROR]   nested once',
+    '[WARN] back',
+  ]);
+});
+
+// Test 102: Record hooks that change a record in place do not affect later records
+test('Record hooks that change a record in place do not affect later records', () => {
+  const testLog = createTestLogger({
+    icons: false,
+    bindings: { app: 'api' },
+    redact: ['token'],
+    hooks: [record => {
+      record.bindings.n = ((record.bindings.n as number) || 0) + 1;
+      record.bindings.token = 'secret';
+      record.fields.seen = true;
+    }],
+  });
+  const fields = { step: 1 };
+  testLog.startTimer().done('first', fields);
+  testLog.info('second');
+
+  assert.deepStrictEqual(testLog.records.map(r => r.bindings), [
+    { app: 'api', n: 1, token: '[REDACTED]' },
+    { app: 'api', n: 1, token: '[REDACTED]' },
+  ]);
+  assert.ok(!testLog.dump().includes('secret'), 'Should redact fields added by hooks');
+  assert.deepStrictEqual(fields, { step: 1 }, 'Should not change the caller\'s fields');
+});
+
+// Test 103: The minilog bin follows a file with --follow until interrupted
+test('The minilog bin follows a file with --follow until interrupted', async () => {
+  const dir = tempDir();
+  const file = path.join(dir, 'app.log');
+  const line = (msg: string) => JSON.stringify({ time: '2024-01-15T10:30:00.000Z', level: 'warn', msg }) + '\n';
+  fs.writeFileSync(file, line('before'));
+
+  const child = spawn(process.execPath, [path.join(__dirname, '..', 'src', 'cli.js'), '--follow', '--no-color', '--no-icons', '--timestamp=none', file]);
+  let output = '';
+  child.stdout.setEncoding('utf8');
+  child.stdout.on('data', chunk => { output += chunk; });
+  const exited = new Promise<number | null>(resolve => child.once('exit', code => resolve(code)));
+
+  try {
+    await waitFor(() => output.includes('before'));
+    fs.appendFileSync(file, line('after'));
+    await waitFor(() => output.includes('after'));
+    child.kill('SIGINT');
+    assert.strictEqual(await exited, 0);
+    assert.deepStrictEqual(output.trim().split('\n'), ['[WARN] before', '[WARN] after']);
+  } finally {
+    child.kill();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+// Test 104: Child loggers share the groups of their parent
+test('Child loggers share the groups of their parent', () => {
+  const records: LogRecord[] = [];
+  const parent = create({ icons: false, colors: false, transports: [{ write: (record) => records.push(record) }] });
+  parent.group('Request');
+  const child = parent.child({ id: 7 });
+  child.info('inside');
+  child.group('Nested');
+  parent.warn('deeper');
+  child.groupEnd();
+  parent.groupEnd();
+  child.info('outside');
+
+  assert.deepStrictEqual(records.map(r => r.output), [
+    '[INFO] Request',
+    '[INFO]   inside id=7',
+    '[INFO]   Nested id=7',
+    '[WARN]     deeper',
+    '[INFO] outside id=7',
+  ]);
+});
+
+// Test 105: Duplicate summaries are redacted and formatted like the first record
+test('Duplicate summaries are redacted and formatted like the first record', async () => {
+  const details = () => ({ password: 'hunter2', user: { token: 'abc', name: 'ann' } });
+  const prettyLog = createTestLogger({ icons: false, redact: ['password', 'user.token'], throttle: { dedupe: true } });
+  const jsonLog = createTestLogger({ format: 'json', redact: ['password', 'user.token'], throttle: { dedupe: true } });
+
+  for (const testLog of [prettyLog, jsonLog]) {
+    for (let i = 0; i < 3; i++) {
+      testLog.warn('login failed', details());
+    }
+    await testLog.flush();
+    assert.strictEqual(testLog.records.length, 2);
+    assert.ok(!testLog.dump().includes('hunter2') && !testLog.dump().includes('abc'), testLog.dump());
+  }
+
+  assert.ok(prettyLog.records[1].message.endsWith('… repeated 2 times in 10s'), prettyLog.records[1].message);
+  const summary = JSON.parse(jsonLog.records[1].output);
+  assert.strictEqual(summary.msg, 'login failed … repeated 2 times in 10s');
+  assert.strictEqual(summary.password, '[REDACTED]');
+  assert.deepStrictEqual(summary.user, { token: '[REDACTED]', name: 'ann' });
+});
+
+// Test 106: The default logger keeps valid settings when one is invalid
+test('The default logger keeps valid settings when one is invalid', () => {
+  const dir = tempDir();
+  try {
+    const errors: string[] = [];
+    assert.deepStrictEqual(
+      loadConfig({ MINILOG_LEVEL: 'warn', MINILOG_COLORS: 'maybe' }, dir, error => errors.push(error.message)),
+      { level: 'warn' }
+    );
+    assert.deepStrictEqual(errors, ['Invalid MINILOG_COLORS: "maybe". Valid values: true, false, 1, 0, auto']);
+
+    const script = `const log = require(${JSON.stringify(path.join(__dirname, '..', 'src', 'index.js'))}).default;
+      log.info('hidden');
+      log.warn('shown');`;
+    const result = spawnSync(process.execPath, ['-e', script], {
+      cwd: dir,
+      encoding: 'utf8',
+      env: { ...process.env, MINILOG_LEVEL: 'warn', MINILOG_FORMAT: 'json', MINILOG_COLORS: 'maybe' },
+      timeout: 10000,
+    });
+    assert.strictEqual(result.status, 0, result.stderr);
+    assert.strictEqual(result.stdout, '', 'Should apply the valid level');
+    const [warning, line] = result.stderr.trim().split('\n');
+    assert.strictEqual(warning, 'minilog-zero: Invalid MINILOG_COLORS: "maybe". Valid values: true, false, 1, 0, auto (ignored)');
+    assert.deepStrictEqual([JSON.parse(line).level, JSON.parse(line).msg], ['warn', 'shown'], 'Should apply the valid format');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+// Test 107: Relative timestamps are shared with child loggers
+test('Relative timestamps are shared with child loggers', () => {
+  const records: LogRecord[] = [];
+  const times = [0, 100, 150];
+  const testLog = create({
+    icons: false,
+    timestamp: 'relative',
+    clock: () => times.shift()!,
+    transports: [{ write: (record) => records.push(record) }],
+  });
+  const child = testLog.create({ prefix: '[db]' });
+
+  testLog.info('parent');
+  child.info('child');
+  testLog.info('parent again');
+
+  assert.deepStrictEqual(records.map(r => r.output.split(' ')[0]), ['[+0ms]', '[+100ms]', '[+50ms]']);
+});
+
+// Test 108: The CLI filters by custom level names and numeric priorities
+test('The CLI filters by custom level names and numeric priorities', () => {
+  const input = [
+    { level: 'trace', priority: 0.5, msg: 'tracing' },
+    { level: 'info', priority: 1, msg: 'started' },
+    { level: 'fatal', priority: 5, msg: 'crashed' },
+    { level: 'error', priority: 3, msg: 'failed' },
+    { level: 'fatal', priority: 5, msg: 'crashed again' },
+  ].map(entry => JSON.stringify(entry));
+
+  const render = (level: string) => {
+    const lines: string[] = [];
+    const view = createViewer({ ...parseArgs(['--level', level]), colors: false, icons: false, timestamp: false }, text => lines.push(text));
+    input.forEach(view);
+    return lines;
+  };
+
+  assert.deepStrictEqual(render('fatal'), ['[FATAL] crashed', '[FATAL] crashed again']);
+  assert.deepStrictEqual(render('3'), ['[FATAL] crashed', '[ERROR] failed', '[FATAL] crashed again']);
+  assert.deepStrictEqual(render('info'), ['[INFO] started', '[FATAL] crashed', '[ERROR] failed', '[FATAL] crashed again']);
+  assert.strictEqual(render('0').length, 5);
+});
+
+// Summary
+runTests().then(() => {
+  console.log('\n' + '='.repeat(50));
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed\n`);
+
+  if (failed > 0) {
+    process.exit(1);
+  } else {
+    console.log('🎉 All tests passed!\n');
+    process.exit(0);
+  }
+});